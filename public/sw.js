@@ -0,0 +1,67 @@
+// Service worker of the offline mode. It keeps the app shell and the inspection data last loaded, so inspectors
+// can open the app and their records without reception. Changes made offline are queued by the page itself
+// (src/offlineQueue.ts) and uploaded when the connection returns.
+
+const SHELL_CACHE = 'shell-v1';
+const DATA_CACHE = 'data-v1';
+
+// API reads served from the cache when offline: what the inspection screens need
+const CACHED_API = [
+  /^\/api\/me$/,
+  /^\/api\/projects$/,
+  /^\/api\/users\/options$/,
+  /^\/api\/checklist-templates$/,
+  /^\/api\/inspections$/,
+  /^\/api\/inspections\/\d+(\/attachments)?$/,
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.add('/')).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== DATA_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Network first; the stored copy answers only when the network does not
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(fallbackUrl ?? request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl ?? request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so a stored copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Every page is the same single-page app
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (CACHED_API.some(pattern => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
@@ -0,0 +1,62 @@
+// Bulk CSV import from the command line, e.g. for the initial migration of spreadsheet history:
+//
+//   npm run import -- estimates history.csv                          validate and print the errors
+//   npm run import -- estimates history.csv --commit                 import (all rows or none)
+//   npm run import -- estimates history.csv --map 金額=amount,顧客=client_name --user tanaka --commit
+//
+// Shift_JIS files from Excel are read as well as UTF-8.
+import fs from 'fs';
+import { db, importRecords, IMPORTABLE } from '../server.ts';
+import { decodeCsv, type ImportMapping } from '../server/csvImport.ts';
+
+const args = process.argv.slice(2);
+// Options are removed from args as they are read, leaving the positional arguments
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+};
+const flag = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  if (index >= 0) args.splice(index, 1);
+  return index >= 0;
+};
+const commit = flag('commit');
+const map = option('map');
+const username = option('user') ?? 'admin';
+const [resource, file] = args;
+
+if (!IMPORTABLE.includes(resource) || !file) {
+  console.error(`Usage: npm run import -- <${IMPORTABLE.join('|')}> <file.csv> [--map header=field,...] [--user username] [--commit]`);
+  process.exit(1);
+}
+
+const user = db.prepare('SELECT id FROM users WHERE username = ?').get(username) as { id: number } | undefined;
+if (!user) {
+  console.error(`Unknown user: ${username}`);
+  process.exit(1);
+}
+
+const mapping: ImportMapping = Object.fromEntries((map ?? '').split(',').filter(Boolean).map(pair => {
+  const [header, field] = pair.split('=');
+  return [header.trim(), field?.trim() || null];
+}));
+
+const result = importRecords(resource, decodeCsv(fs.readFileSync(file)), { mapping, actorId: user.id, commit });
+
+if ('rows' in result) {
+  console.log(Object.entries(result.mapping).map(([header, field]) => `  ${header} -> ${field ?? '(ignored)'}`).join('\n'));
+  for (const row of result.rows.filter(row => row.errors.length > 0)) {
+    console.log(`line ${row.line}: ${row.errors.map(e => e.message).join('; ')}`);
+  }
+  console.log(`${result.total} rows, ${result.invalid} with errors`);
+  if (result.invalid > 0) process.exitCode = 1;
+}
+if ('error' in result) {
+  console.error(result.error);
+  process.exit(1);
+}
+if ('imported' in result) {
+  console.log(`Imported ${result.imported} ${resource}`);
+} else {
+  console.log('Nothing was written; run again with --commit to import.');
+}
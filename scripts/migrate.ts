@@ -0,0 +1,39 @@
+// Schema migrations from the command line (the server also applies pending migrations when it starts):
+//
+//   npm run migrate                  back up construction.db to backups/, then apply pending migrations
+//   npm run migrate -- status        list migrations and when they were applied
+//   npm run migrate -- backup        back up only
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { DATABASE_FILE, backupDatabase, migrate, migrationStatus, pendingMigrations } from '../server/migrate.ts';
+
+const [command = 'migrate'] = process.argv.slice(2);
+if (!['migrate', 'status', 'backup'].includes(command)) {
+  console.error('Usage: npm run migrate -- [migrate|status|backup]');
+  process.exit(1);
+}
+
+const existed = fs.existsSync(DATABASE_FILE);
+const db = new Database(DATABASE_FILE);
+db.pragma('foreign_keys = ON');
+
+try {
+  if (command === 'status') {
+    for (const m of migrationStatus(db)) {
+      console.log(`${String(m.version).padStart(3, '0')} ${m.name.padEnd(30)} ${m.applied_at ?? 'pending'}`);
+    }
+  } else if (command === 'backup') {
+    console.log(`Backed up to ${await backupDatabase(db)}`);
+  } else if (!pendingMigrations(db).length) {
+    console.log('Database is up to date');
+  } else {
+    // A new database has nothing to lose
+    if (existed) console.log(`Backed up to ${await backupDatabase(db)}`);
+    for (const m of migrate(db)) console.log(`Applied migration ${m.version} (${m.name})`);
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
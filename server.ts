@@ -4,73 +4,1082 @@ import Database from 'better-sqlite3';
 import bcrypt from 'bcryptjs';
 import session from 'express-session';
 import path from 'path';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
+import { renderEstimatePdf } from './server/estimatePdf.ts';
+import { upload, createThumbnail, removeAttachmentFiles, storedMimeType, isInlineType, UPLOAD_DIR, THUMBNAIL_DIR } from './server/attachments.ts';
+import { DEFAULT_TEMPLATES } from './server/checklistTemplates.ts';
+import { buildListQuery, toPage, isDateString, type ListSpec } from './server/listQuery.ts';
+import {
+  computeEstimateTotals,
+  lineSubtotal,
+  DEFAULT_TAX_RATE,
+  ESTIMATE_STATUS_LABELS,
+  ESTIMATE_TRANSITIONS,
+  type EstimateItemInput
+} from './src/estimate.ts';
+import {
+  rollUpInspectionStatus,
+  INSPECTION_STATUS_LABELS,
+  type ChecklistItemInput,
+  type CorrectiveActionState
+} from './src/checklist.ts';
+import {
+  EXPENSE_CATEGORY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  TRIP_REPORT_STATUS_LABELS,
+  TRIP_REPORT_TRANSITIONS,
+  type TripExpenseItemInput
+} from './src/tripExpense.ts';
+import { expenseJournalCsv } from './server/expenseJournal.ts';
+import { renderExport, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, type ExportColumn, type ExportFormat } from './server/recordExport.ts';
+import { parseCsv, autoMapping, validateRows, type ImportField, type ImportError, type ImportMapping } from './server/csvImport.ts';
+import { validate, asyncHandler, apiNotFound, apiErrorHandler } from './server/validation.ts';
+import { migrate, DATABASE_FILE } from './server/migrate.ts';
+import { normalizeClientName } from './server/clientName.ts';
+import { createAiModel, type AiModel } from './server/ai.ts';
+import { draftMinutes, summarizeFindings, suggestEstimateItems } from './server/aiDrafts.ts';
+import { buildIcs } from './server/ics.ts';
+import { createMailTransport, type MailTransport } from './server/mailer.ts';
+import { NOTIFICATION_KIND_LABELS, QUOTE_FOLLOW_UP_DAYS, type NotificationKind } from './src/notifications.ts';
+import {
+  loginSchema,
+  passwordChangeSchema,
+  userCreateSchema,
+  userUpdateSchema,
+  projectSchema,
+  inspectionSchema,
+  checklistTemplateSchema,
+  correctiveActionSchema,
+  correctiveActionUpdateSchema,
+  correctiveActionResolveSchema,
+  correctiveActionVerifySchema,
+  tripReportSchema,
+  estimateSchema,
+  clientSchema,
+  minutesDraftSchema,
+  inspectionSummarySchema,
+  estimateItemsDraftSchema,
+  minuteSchema,
+  actionItemUpdateSchema,
+  notificationUpdateSchema,
+  transitionSchema,
+  attachmentMetaSchema,
+  recordSchemas,
+  fieldErrors,
+  ROLE_LABELS,
+  type Role
+} from './src/schemas.ts';
+import { AUDIT_ACTION_LABELS, type AuditAction } from './src/audit.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const db = new Database('construction.db');
-
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    username TEXT UNIQUE,
-    password TEXT,
-    role TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS inspections (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    project_name TEXT,
-    date TEXT,
-    location TEXT,
-    findings TEXT,
-    status TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS trip_reports (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    destination TEXT,
-    date_start TEXT,
-    date_end TEXT,
-    purpose TEXT,
-    results TEXT,
-    expenses INTEGER,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS estimates (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    client_name TEXT,
-    project_name TEXT,
-    amount INTEGER,
-    details TEXT,
-    status TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS minutes (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    title TEXT,
-    date TEXT,
-    attendees TEXT,
-    content TEXT,
-    action_items TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-`);
+export const db = new Database(DATABASE_FILE);
+db.pragma('foreign_keys = ON');
+
+// Bring the schema up to date (see server/migrations; `npm run migrate` does the same after a backup)
+for (const migration of migrate(db)) {
+  console.log(`Applied migration ${migration.version} (${migration.name})`);
+}
+
+const nextProjectCode = () => {
+  const { next } = db.prepare('SELECT COALESCE(MAX(id), 0) + 1 AS next FROM projects').get() as { next: number };
+  return `P-${String(next).padStart(4, '0')}`;
+};
+
+// E-000123; every revision of an estimate shares the number
+const formatEstimateNo = (id: number | bigint) => `E-${String(id).padStart(6, '0')}`;
+
+// Seed checklist templates on first start
+if (!db.prepare('SELECT id FROM checklist_templates LIMIT 1').get()) {
+  db.transaction(() => {
+    for (const template of DEFAULT_TEMPLATES) {
+      const { lastInsertRowid } = db.prepare('INSERT INTO checklist_templates (name, description) VALUES (?, ?)').run(template.name, template.description);
+      template.items.forEach((item, index) => {
+        db.prepare('INSERT INTO checklist_template_items (template_id, sort_order, section, label, critical) VALUES (?, ?, ?, ?, ?)')
+          .run(lastInsertRowid, index, item.section, item.label, item.critical ? 1 : 0);
+      });
+    }
+  })();
+}
 
 // Seed default user if not exists
-const row = db.prepare('SELECT * FROM users WHERE username = ?').get('admin');
+const row: any = db.prepare('SELECT * FROM users WHERE username = ?').get('admin');
 if (!row) {
   const hashedPassword = bcrypt.hashSync('admin123', 10);
-  db.prepare('INSERT INTO users (username, password, role) VALUES (?, ?, ?)').run('admin', hashedPassword, 'admin');
+  db.prepare('INSERT INTO users (username, password, role, must_change_password) VALUES (?, ?, ?, 1)').run('admin', hashedPassword, 'admin');
+} else if (bcrypt.compareSync('admin123', row.password)) {
+  // Existing installations still on the default password must change it too
+  db.prepare('UPDATE users SET must_change_password = 1 WHERE id = ?').run(row.id);
 }
 
+const USER_COLUMNS = 'id, username, role, active, must_change_password, email';
+// Stands in for the password in audit entries, so that a reset is visible without logging the hash
+const PASSWORD_CHANGED = '********';
+
+const getEstimateItems = (estimateId: number | bigint | string) =>
+  db.prepare('SELECT * FROM estimate_items WHERE estimate_id = ? ORDER BY sort_order, id').all(estimateId);
+
+// Replaces the line items of an estimate (when given) and re-derives its totals from them
+const saveEstimateItems = (estimateId: number | bigint | string, items?: Partial<EstimateItemInput>[]) => {
+  if (Array.isArray(items)) {
+    db.prepare('DELETE FROM estimate_items WHERE estimate_id = ?').run(estimateId);
+    const insert = db.prepare(`
+      INSERT INTO estimate_items (estimate_id, sort_order, category, name, spec, quantity, unit, unit_price, subtotal)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    items.filter(item => item.name?.trim()).forEach((item, index) => {
+      const quantity = Number(item.quantity) || 0;
+      const unitPrice = Math.round(Number(item.unit_price) || 0);
+      insert.run(estimateId, index, item.category || null, item.name!.trim(), item.spec || null, quantity, item.unit || null, unitPrice,
+        lineSubtotal({ quantity, unit_price: unitPrice }));
+    });
+  }
+  const estimate: any = db.prepare('SELECT discount, tax_rate FROM estimates WHERE id = ?').get(estimateId);
+  const totals = computeEstimateTotals(getEstimateItems(estimateId) as EstimateItemInput[], estimate.discount, estimate.tax_rate);
+  db.prepare('UPDATE estimates SET subtotal = ?, discount = ?, tax = ?, amount = ? WHERE id = ?')
+    .run(totals.subtotal, totals.discount, totals.tax, totals.amount, estimateId);
+};
+
+const getEstimateHistory = (estimateId: number | bigint | string) => db.prepare(`
+  SELECT h.*, u.username FROM estimate_status_history h
+  LEFT JOIN users u ON u.id = h.user_id
+  WHERE h.estimate_id = ? ORDER BY h.created_at, h.id
+`).all(estimateId);
+
+const recordEstimateStatus = (estimateId: number | bigint | string, from: string | null, to: string, userId: number, comment?: string) =>
+  db.prepare('INSERT INTO estimate_status_history (estimate_id, from_status, to_status, user_id, comment) VALUES (?, ?, ?, ?, ?)')
+    .run(estimateId, from, to, userId, comment || null);
+
+// Who last submitted the estimate for approval
+const estimateSubmitter = (estimateId: number | bigint | string) => db.prepare(`
+  SELECT user_id FROM estimate_status_history WHERE estimate_id = ? AND to_status = 'submitted' ORDER BY id DESC LIMIT 1
+`).pluck().get(estimateId) as number | null | undefined;
+
+const getEstimateRevisions = (estimateNo: string) => db.prepare(`
+  SELECT id, revision, status, amount, created_at FROM estimates WHERE estimate_no = ? ORDER BY revision
+`).all(estimateNo);
+
+// Only the newest revision of an estimate may change; earlier ones are kept as a record of what was quoted
+const isLatestRevision = (estimate: any) => {
+  const { latest } = db.prepare('SELECT MAX(revision) AS latest FROM estimates WHERE estimate_no = ?').get(estimate.estimate_no) as { latest: number };
+  return estimate.revision === latest;
+};
+
+// Field-by-field and line-by-line comparison of two revisions. Lines are matched by name and spec.
+const compareEstimates = (before: any, after: any) => {
+  const fields = ['client_name', 'project_name', 'details', 'valid_until', 'subtotal', 'discount', 'tax_rate', 'tax', 'amount']
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field], after: after[field] }));
+  const key = (item: any) => `${item.name}\u0000${item.spec ?? ''}`;
+  const beforeItems = new Map((getEstimateItems(before.id) as any[]).map(item => [key(item), item]));
+  const afterItems = new Map((getEstimateItems(after.id) as any[]).map(item => [key(item), item]));
+  const items = [
+    ...[...afterItems].filter(([k]) => !beforeItems.has(k)).map(([, item]) => ({ change: 'added', before: null, after: item })),
+    ...[...beforeItems].filter(([k]) => !afterItems.has(k)).map(([, item]) => ({ change: 'removed', before: item, after: null })),
+    ...[...afterItems].filter(([k]) => beforeItems.has(k)).map(([k, item]) => ({ change: 'changed', before: beforeItems.get(k), after: item }))
+      .filter(({ before, after }) => ['category', 'quantity', 'unit', 'unit_price', 'subtotal'].some(f => before[f] !== after[f])),
+  ];
+  return { fields, items };
+};
+
+const getChecklistTemplate = (templateId: number | bigint | string) => {
+  const template: any = db.prepare('SELECT * FROM checklist_templates WHERE id = ?').get(templateId);
+  if (!template) return null;
+  const items = db.prepare('SELECT * FROM checklist_template_items WHERE template_id = ? ORDER BY sort_order, id').all(templateId);
+  return { ...template, items };
+};
+
+const saveChecklistTemplateItems = (templateId: number | bigint | string, items: { section?: string; label?: string; critical?: unknown }[]) => {
+  db.prepare('DELETE FROM checklist_template_items WHERE template_id = ?').run(templateId);
+  items.filter(item => item.label?.trim()).forEach((item, index) => {
+    db.prepare('INSERT INTO checklist_template_items (template_id, sort_order, section, label, critical) VALUES (?, ?, ?, ?, ?)')
+      .run(templateId, index, item.section || null, item.label!.trim(), item.critical ? 1 : 0);
+  });
+};
+
+const getInspectionChecklist = (inspectionId: number | bigint | string) =>
+  db.prepare('SELECT * FROM inspection_checklist_items WHERE inspection_id = ? ORDER BY sort_order, id').all(inspectionId);
+
+// Calendar date in the company's time zone, used for due-date comparisons
+const APP_TIME_ZONE = process.env.APP_TIME_ZONE || 'Asia/Tokyo';
+const today = () => new Date().toLocaleDateString('sv-SE', { timeZone: APP_TIME_ZONE });
+
+// UTC timestamp, in the format CURRENT_TIMESTAMP stores, at which a calendar day starts in the company's time zone
+const startOfDayUtc = (date: string) => {
+  const midnightUtc = new Date(`${date}T00:00:00Z`);
+  const offset = new Date(midnightUtc.toLocaleString('en-US', { timeZone: APP_TIME_ZONE })).getTime()
+    - new Date(midnightUtc.toLocaleString('en-US', { timeZone: 'UTC' })).getTime();
+  return new Date(midnightUtc.getTime() - offset).toISOString().slice(0, 19).replace('T', ' ');
+};
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+const nextDay = (date: string) => addDays(date, 1);
+
+const getCorrectiveActions = (where: string, ...params: unknown[]) => db.prepare(`
+  SELECT a.*, u.username AS assignee_name, v.username AS verified_by_name,
+    c.label AS checklist_label, COALESCE(c.critical, 0) AS critical,
+    i.project_name, i.location, i.date AS inspection_date
+  FROM corrective_actions a
+  JOIN inspections i ON i.id = a.inspection_id
+  LEFT JOIN users u ON u.id = a.assignee_id
+  LEFT JOIN users v ON v.id = a.verified_by
+  LEFT JOIN inspection_checklist_items c ON c.id = a.checklist_item_id
+  WHERE ${where}
+  ORDER BY a.due_date IS NULL, a.due_date, a.id
+`).all(...params);
+
+// Re-derives the inspection status from its checklist and corrective actions; a manual status stays when it has neither
+const refreshInspectionStatus = (inspectionId: number | bigint | string) => {
+  const checklist = getInspectionChecklist(inspectionId) as (ChecklistItemInput & { id: number })[];
+  const actions = getCorrectiveActions('a.inspection_id = ?', inspectionId) as CorrectiveActionState[];
+  const status = rollUpInspectionStatus(checklist, actions, today());
+  // A derived status change is an edit like any other: offline edits made before it must conflict (see If-Match)
+  if (status) db.prepare('UPDATE inspections SET status = ?, version = version + 1 WHERE id = ? AND status IS NOT ?').run(status, inspectionId, status);
+};
+
+// Actions that passed their due date since the last write make their inspection urgent
+const refreshOverdueInspections = () => {
+  const ids = db.prepare(`
+    SELECT DISTINCT a.inspection_id FROM corrective_actions a JOIN inspections i ON i.id = a.inspection_id
+    WHERE a.status <> 'verified' AND a.due_date < ? AND COALESCE(i.status, '') <> 'urgent'
+  `).pluck().all(today()) as number[];
+  ids.forEach(refreshInspectionStatus);
+};
+
+// Updates the checklist of an inspection (when given) and re-derives the inspection status.
+// Existing rows keep their id so corrective actions stay linked to the finding they address.
+const saveInspectionChecklist = (inspectionId: number | bigint | string, checklist?: (Partial<ChecklistItemInput> & { id?: number })[]) => {
+  if (Array.isArray(checklist)) {
+    const rows = checklist.filter(item => item.label?.trim());
+    const update = db.prepare(`
+      UPDATE inspection_checklist_items SET sort_order = ?, section = ?, label = ?, critical = ?, result = ?, comment = ?
+      WHERE id = ? AND inspection_id = ?
+    `);
+    const insert = db.prepare(`
+      INSERT INTO inspection_checklist_items (inspection_id, sort_order, section, label, critical, result, comment)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const kept: (number | bigint)[] = [];
+    rows.forEach((item, index) => {
+      const result = ['ok', 'ng', 'na'].includes(item.result as string) ? item.result : null;
+      const values = [index, item.section || null, item.label!.trim(), item.critical ? 1 : 0, result, item.comment || null];
+      // Rows copied from a template carry the template item id, which never matches here
+      if (item.id && update.run(...values, item.id, inspectionId).changes > 0) {
+        kept.push(item.id);
+      } else {
+        kept.push(insert.run(inspectionId, ...values).lastInsertRowid);
+      }
+    });
+    db.prepare(`DELETE FROM inspection_checklist_items WHERE inspection_id = ? AND id NOT IN (${kept.map(() => '?').join(', ') || 'NULL'})`)
+      .run(inspectionId, ...kept);
+  }
+  refreshInspectionStatus(inspectionId);
+};
+
+// Legacy free text: attendees separated by commas, action items one per line with list bullets
+const splitAttendees = (text: string) => text.split(/[,、，]/).map(name => name.trim()).filter(Boolean);
+const splitActionItems = (text: string) =>
+  text.split(/\r?\n/).map(line => line.replace(/^\s*(?:[-・*•]|\d+[.)．])\s*/, '').trim()).filter(Boolean);
+
+const getMinuteAttendees = (minuteId: number | bigint | string) => db.prepare(`
+  SELECT a.*, u.username FROM minute_attendees a LEFT JOIN users u ON u.id = a.user_id
+  WHERE a.minute_id = ? ORDER BY a.sort_order, a.id
+`).all(minuteId);
+
+const getActionItems = (where: string, ...params: unknown[]) => db.prepare(`
+  SELECT a.*, u.username AS owner_name, m.title AS minute_title, m.date AS minute_date, p.name AS project_name
+  FROM minute_action_items a
+  JOIN minutes m ON m.id = a.minute_id
+  LEFT JOIN users u ON u.id = a.owner_id
+  LEFT JOIN projects p ON p.id = m.project_id
+  WHERE ${where}
+  ORDER BY a.done, a.due_date IS NULL, a.due_date, a.id
+`).all(...params);
+
+type AttendeeInput = { user_id?: number | string | null; name?: string; organization?: string };
+type ActionItemInput = { id?: number; description?: string; owner_id?: number | string | null; due_date?: string; done?: unknown };
+
+// Replaces the attendees of a meeting (when given) and refreshes the minutes.attendees summary used by search.
+// A string is read as the legacy comma-separated list and names matching a username are linked to that user.
+const saveMinuteAttendees = (minuteId: number | bigint | string, attendees?: AttendeeInput[] | string) => {
+  const rows: AttendeeInput[] | undefined = typeof attendees === 'string'
+    ? splitAttendees(attendees).map(name => ({ name, user_id: db.prepare('SELECT id FROM users WHERE username = ?').pluck().get(name) as number | undefined }))
+    : attendees;
+  if (!Array.isArray(rows)) return;
+  db.prepare('DELETE FROM minute_attendees WHERE minute_id = ?').run(minuteId);
+  const names: string[] = [];
+  rows.forEach((attendee, index) => {
+    const userId = Number(attendee.user_id) || null;
+    const username = userId ? db.prepare('SELECT username FROM users WHERE id = ?').pluck().get(userId) as string | undefined : undefined;
+    const name = attendee.name?.trim() || username;
+    if (!name) return;
+    db.prepare('INSERT INTO minute_attendees (minute_id, sort_order, user_id, name, organization) VALUES (?, ?, ?, ?, ?)')
+      .run(minuteId, index, username ? userId : null, name, attendee.organization?.trim() || null);
+    names.push(name);
+  });
+  db.prepare('UPDATE minutes SET attendees = ? WHERE id = ?').run(names.join(', '), minuteId);
+};
+
+const refreshActionItemSummary = (minuteId: number | bigint | string) => {
+  const descriptions = db.prepare('SELECT description FROM minute_action_items WHERE minute_id = ? ORDER BY sort_order, id').pluck().all(minuteId);
+  db.prepare('UPDATE minutes SET action_items = ? WHERE id = ?').run(descriptions.join('\n'), minuteId);
+};
+
+// Updates the action items of a meeting (when given) and refreshes the minutes.action_items summary.
+// Existing rows keep their id and completion time; a string is read as legacy one-item-per-line text.
+const saveMinuteActionItems = (minuteId: number | bigint | string, items?: ActionItemInput[] | string) => {
+  const rows: ActionItemInput[] | undefined = typeof items === 'string'
+    ? splitActionItems(items).map(description => ({ description }))
+    : items;
+  if (!Array.isArray(rows)) return;
+  const update = db.prepare(`
+    UPDATE minute_action_items SET sort_order = ?, description = ?, owner_id = ?, due_date = ?, done = ?,
+      done_at = CASE WHEN ? = 1 THEN COALESCE(done_at, CURRENT_TIMESTAMP) END
+    WHERE id = ? AND minute_id = ?
+  `);
+  const insert = db.prepare(`
+    INSERT INTO minute_action_items (minute_id, sort_order, description, owner_id, due_date, done, done_at)
+    VALUES (?, ?, ?, ?, ?, ?, CASE WHEN ? = 1 THEN CURRENT_TIMESTAMP END)
+  `);
+  const kept: (number | bigint)[] = [];
+  rows.filter(item => item.description?.trim()).forEach((item, index) => {
+    const done = item.done === true || item.done === 1 || item.done === '1' ? 1 : 0;
+    const values = [index, item.description!.trim(), Number(item.owner_id) || null, item.due_date || null, done, done];
+    if (item.id && update.run(...values, item.id, minuteId).changes > 0) {
+      kept.push(item.id);
+    } else {
+      kept.push(insert.run(minuteId, ...values).lastInsertRowid);
+    }
+  });
+  db.prepare(`DELETE FROM minute_action_items WHERE minute_id = ? AND id NOT IN (${kept.map(() => '?').join(', ') || 'NULL'})`)
+    .run(minuteId, ...kept);
+  refreshActionItemSummary(minuteId);
+};
+
+const getTripExpenseItems = (tripReportId: number | bigint | string) => db.prepare(`
+  SELECT i.*, a.original_name AS receipt_name FROM trip_expense_items i
+  LEFT JOIN attachments a ON a.id = i.receipt_attachment_id
+  WHERE i.trip_report_id = ? ORDER BY i.sort_order, i.id
+`).all(tripReportId);
+
+// Replaces the expense lines of a trip report (when given) and re-derives its expense total from them.
+// A receipt must be an attachment of the same report.
+const saveTripExpenseItems = (tripReportId: number | bigint | string, items?: Partial<TripExpenseItemInput>[]) => {
+  if (Array.isArray(items)) {
+    db.prepare('DELETE FROM trip_expense_items WHERE trip_report_id = ?').run(tripReportId);
+    const insert = db.prepare(`
+      INSERT INTO trip_expense_items (trip_report_id, sort_order, category, date, description, amount, payment_method, receipt_attachment_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const receipt = db.prepare(`SELECT id FROM attachments WHERE id = ? AND entity_type = 'trip-reports' AND entity_id = ?`).pluck();
+    items.filter(item => Number(item.amount) || item.description?.trim()).forEach((item, index) => {
+      insert.run(
+        tripReportId,
+        index,
+        item.category && item.category in EXPENSE_CATEGORY_LABELS ? item.category : 'other',
+        isDateString(item.date) ? item.date : null,
+        item.description?.trim() || null,
+        Math.round(Number(item.amount) || 0),
+        item.payment_method && item.payment_method in PAYMENT_METHOD_LABELS ? item.payment_method : null,
+        item.receipt_attachment_id ? receipt.get(item.receipt_attachment_id, tripReportId) ?? null : null
+      );
+    });
+  }
+  db.prepare('UPDATE trip_reports SET expenses = (SELECT COALESCE(SUM(amount), 0) FROM trip_expense_items WHERE trip_report_id = ?) WHERE id = ?')
+    .run(tripReportId, tripReportId);
+};
+
+const getTripReportHistory = (tripReportId: number | bigint | string) => db.prepare(`
+  SELECT h.*, u.username FROM trip_report_status_history h
+  LEFT JOIN users u ON u.id = h.user_id
+  WHERE h.trip_report_id = ? ORDER BY h.created_at, h.id
+`).all(tripReportId);
+
+const recordTripReportStatus = (tripReportId: number | bigint | string, from: string | null, to: string, userId: number, comment?: string) =>
+  db.prepare('INSERT INTO trip_report_status_history (trip_report_id, from_status, to_status, user_id, comment) VALUES (?, ?, ?, ?, ?)')
+    .run(tripReportId, from, to, userId, comment || null);
+
+const getClientContacts = (clientId: number | bigint | string) =>
+  db.prepare('SELECT * FROM client_contacts WHERE client_id = ? ORDER BY sort_order, id').all(clientId);
+
+type ClientContactInput = { name?: string | null; department?: string | null; title?: string | null; phone?: string | null; email?: string | null };
+
+// Replaces the contacts of a client (when given); rows without a name are dropped
+const saveClientContacts = (clientId: number | bigint | string, contacts?: ClientContactInput[]) => {
+  if (!Array.isArray(contacts)) return;
+  db.prepare('DELETE FROM client_contacts WHERE client_id = ?').run(clientId);
+  const insert = db.prepare('INSERT INTO client_contacts (client_id, sort_order, name, department, title, phone, email) VALUES (?, ?, ?, ?, ?, ?, ?)');
+  contacts.filter(contact => contact.name?.trim()).forEach((contact, index) => {
+    insert.run(clientId, index, contact.name!.trim(), contact.department || null, contact.title || null, contact.phone || null, contact.email || null);
+  });
+};
+
+// Another client whose name differs only in legal form, width or spacing
+const findClientByName = (name: string, exceptId = 0) =>
+  db.prepare('SELECT id, name FROM clients WHERE name_key = ? AND id <> ?').get(normalizeClientName(name), exceptId) as { id: number; name: string } | undefined;
+
+// Record types that accept photo and file attachments, with their tables
+const ATTACHABLE: Record<string, string> = {
+  inspections: 'inspections',
+  minutes: 'minutes',
+  'trip-reports': 'trip_reports',
+  // After-photos of remediated findings
+  'corrective-actions': 'corrective_actions',
+};
+
+const removeAttachments = (entityType: string, entityId: number | string) => {
+  const rows = db.prepare('SELECT * FROM attachments WHERE entity_type = ? AND entity_id = ?').all(entityType, entityId) as any[];
+  rows.forEach(removeAttachmentFiles);
+  db.prepare('DELETE FROM attachments WHERE entity_type = ? AND entity_id = ?').run(entityType, entityId);
+};
+
+// Record types exposed as REST resources under /api/<path>
+// `expand` adds child records to the detail response
+const resources: Record<string, { table: string; fields: string[]; expand?: (row: any) => any }> = {
+  inspections: {
+    table: 'inspections',
+    // status is overwritten from the checklist and corrective actions whenever the inspection has them
+    fields: ['project_id', 'project_name', 'date', 'location', 'findings', 'status', 'template_id'],
+    expand: row => ({
+      ...row,
+      checklist: getInspectionChecklist(row.id),
+      corrective_actions: getCorrectiveActions('a.inspection_id = ?', row.id),
+    }),
+  },
+  'trip-reports': {
+    table: 'trip_reports',
+    // expenses is the sum of the expense lines; status is changed only through POST /api/trip-reports/:id/transitions
+    fields: ['project_id', 'destination', 'date_start', 'date_end', 'purpose', 'results'],
+    expand: row => ({ ...row, items: getTripExpenseItems(row.id), history: getTripReportHistory(row.id) }),
+  },
+  estimates: {
+    table: 'estimates',
+    // status is changed only through POST /api/estimates/:id/transitions
+    fields: ['project_id', 'client_id', 'client_name', 'project_name', 'details', 'discount', 'tax_rate', 'valid_until'],
+    expand: row => ({
+      ...row,
+      items: getEstimateItems(row.id),
+      history: getEstimateHistory(row.id),
+      revisions: getEstimateRevisions(row.estimate_no),
+    }),
+  },
+  minutes: {
+    table: 'minutes',
+    // attendees and action_items are text summaries kept in sync with the participant and task rows
+    fields: ['project_id', 'title', 'date', 'content'],
+    expand: row => ({
+      ...row,
+      participants: getMinuteAttendees(row.id),
+      tasks: getActionItems('a.minute_id = ?', row.id),
+    }),
+  },
+  projects: { table: 'projects', fields: ['code', 'name', 'client', 'site_address', 'start_date', 'end_date', 'status'] },
+  clients: {
+    table: 'clients',
+    // name_key is derived from name when saving
+    fields: ['name', 'name_key', 'name_kana', 'postal_code', 'address', 'phone', 'billing_name', 'billing_address', 'invoice_number', 'payment_terms', 'notes'],
+    expand: row => ({ ...row, contacts: getClientContacts(row.id) }),
+  },
+};
+
+// Tables of the record types that appear in the audit log
+const AUDIT_TABLES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(resources).map(([name, { table }]) => [name, table])),
+  'corrective-actions': 'corrective_actions',
+  'checklist-templates': 'checklist_templates',
+  'action-items': 'minute_action_items',
+  attachments: 'attachments',
+  users: 'users',
+};
+
+interface AuditActor {
+  userId: number | null;
+  // Looked up from userId when omitted
+  username?: string | null;
+  ip?: string | null;
+}
+
+// A record as logged: its row with child rows. Password hashes are left out, and so are
+// status histories and revision lists, which are audit trails of their own.
+const auditSnapshot = (entity: string, id: number | bigint | string): Record<string, unknown> | null => {
+  const row: any = entity === 'checklist-templates'
+    ? getChecklistTemplate(id)
+    : db.prepare(`SELECT * FROM ${AUDIT_TABLES[entity]} WHERE id = ?`).get(id);
+  if (!row) return null;
+  // Feed secrets, edit counters and offline upload keys are bookkeeping, not content
+  const { password, calendar_token, history, revisions, corrective_actions, version, client_key, ...snapshot } = resources[entity]?.expand?.(row) ?? row;
+  return snapshot;
+};
+
+const recordAudit = (
+  actor: AuditActor,
+  action: AuditAction,
+  entity: string | null = null,
+  entityId: number | bigint | string | null = null,
+  before: unknown = null,
+  after: unknown = null
+) => {
+  // Saving a record without changing anything is not worth an entry
+  if (action === 'update' && JSON.stringify(before) === JSON.stringify(after)) return;
+  const username = actor.username ?? (actor.userId ? db.prepare('SELECT username FROM users WHERE id = ?').pluck().get(actor.userId) : null);
+  db.prepare('INSERT INTO audit_log (user_id, username, action, entity_type, entity_id, before, after, ip) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(actor.userId, username ?? null, action, entity, entityId === null ? null : Number(entityId),
+      before === null ? null : JSON.stringify(before), after === null ? null : JSON.stringify(after), actor.ip ?? null);
+};
+
+// Search, filter and sort options of the list routes (see server/listQuery.ts)
+const listSpecs: Record<string, ListSpec> = {
+  inspections: {
+    from: 'inspections i', alias: 'i', fts: 'inspections_fts',
+    searchColumns: ['project_name', 'location', 'findings'],
+    dateColumn: 'i.date',
+    statusColumn: 'status',
+    sortable: {
+      created_at: 'i.created_at',
+      date: "COALESCE(i.date, '')",
+      project_name: "COALESCE(i.project_name, '')",
+      status: "COALESCE(i.status, '')",
+    },
+    defaultSort: 'created_at',
+  },
+  'trip-reports': {
+    from: 'trip_reports t', alias: 't', fts: 'trip_reports_fts',
+    searchColumns: ['destination', 'purpose', 'results'],
+    dateColumn: 't.date_start',
+    statusColumn: 'status',
+    sortable: {
+      created_at: 't.created_at',
+      date_start: "COALESCE(t.date_start, '')",
+      destination: "COALESCE(t.destination, '')",
+      expenses: 'COALESCE(t.expenses, 0)',
+    },
+    defaultSort: 'created_at',
+    columns: '(SELECT username FROM users WHERE id = t.user_id) AS username',
+  },
+  estimates: {
+    from: 'estimates e', alias: 'e', fts: 'estimates_fts',
+    searchColumns: ['estimate_no', 'client_name', 'project_name', 'details'],
+    dateColumn: 'DATE(e.created_at)',
+    statusColumn: 'status',
+    sortable: {
+      created_at: 'e.created_at',
+      amount: 'COALESCE(e.amount, 0)',
+      client_name: "COALESCE(e.client_name, '')",
+      valid_until: "COALESCE(e.valid_until, '')",
+    },
+    defaultSort: 'created_at',
+    // Lists show the latest revision of each estimate
+    where: 'e.revision = (SELECT MAX(revision) FROM estimates WHERE estimate_no = e.estimate_no)',
+  },
+  minutes: {
+    from: 'minutes m', alias: 'm', fts: 'minutes_fts',
+    searchColumns: ['title', 'attendees', 'content', 'action_items'],
+    dateColumn: 'm.date',
+    sortable: {
+      created_at: 'm.created_at',
+      date: "COALESCE(m.date, '')",
+      title: "COALESCE(m.title, '')",
+    },
+    defaultSort: 'created_at',
+    columns: `(SELECT COUNT(*) FROM minute_action_items WHERE minute_id = m.id AND done = 0) AS open_tasks`,
+  },
+};
+
+const projectNameOf = (projectId: number | null) =>
+  projectId ? db.prepare('SELECT name FROM projects WHERE id = ?').pluck().get(projectId) as string | undefined : undefined;
+const usernameOf = (userId: number | null) =>
+  userId ? db.prepare('SELECT username FROM users WHERE id = ?').pluck().get(userId) as string | undefined : undefined;
+const labelOf = (labels: Record<string, string>, value: string | null) => value ? labels[value] ?? value : null;
+
+// Spreadsheet columns of GET /api/<path>/export, with a Japanese header row
+const exportSpecs: Record<string, { title: string; columns: ExportColumn[] }> = {
+  inspections: {
+    title: '現場点検記録',
+    columns: [
+      { header: 'ID', value: row => row.id, width: 8 },
+      { header: '点検日', value: row => row.date, width: 12 },
+      { header: 'プロジェクト', value: row => row.project_name, width: 24 },
+      { header: '場所', value: row => row.location, width: 20 },
+      { header: 'ステータス', value: row => labelOf(INSPECTION_STATUS_LABELS, row.status) },
+      { header: '点検内容・所見', value: row => row.findings, width: 48 },
+      { header: '登録者', value: row => usernameOf(row.user_id) },
+      { header: '登録日時', value: row => row.created_at, width: 20 },
+    ],
+  },
+  'trip-reports': {
+    title: '出張報告',
+    columns: [
+      { header: 'ID', value: row => row.id, width: 8 },
+      { header: 'プロジェクト', value: row => projectNameOf(row.project_id), width: 24 },
+      { header: '出張先', value: row => row.destination, width: 20 },
+      { header: '開始日', value: row => row.date_start, width: 12 },
+      { header: '終了日', value: row => row.date_end, width: 12 },
+      { header: '目的', value: row => row.purpose, width: 32 },
+      { header: '結果・成果', value: row => row.results, width: 48 },
+      { header: '経費合計', value: row => row.expenses ?? 0 },
+      { header: 'ステータス', value: row => labelOf(TRIP_REPORT_STATUS_LABELS, row.status) },
+      { header: '支払日時', value: row => row.paid_at, width: 20 },
+      { header: '報告者', value: row => row.username },
+      { header: '登録日時', value: row => row.created_at, width: 20 },
+    ],
+  },
+  estimates: {
+    title: '見積もり',
+    columns: [
+      { header: '見積番号', value: row => row.estimate_no },
+      { header: '版', value: row => row.revision, width: 6 },
+      { header: '顧客名', value: row => row.client_name, width: 24 },
+      { header: 'プロジェクト', value: row => projectNameOf(row.project_id), width: 24 },
+      { header: '工事名', value: row => row.project_name, width: 24 },
+      { header: 'ステータス', value: row => labelOf(ESTIMATE_STATUS_LABELS, row.status) },
+      { header: '小計', value: row => row.subtotal ?? row.amount },
+      { header: '値引き', value: row => row.discount },
+      { header: '消費税率', value: row => row.tax_rate, width: 10 },
+      { header: '消費税', value: row => row.tax },
+      { header: '合計金額', value: row => row.amount },
+      { header: '有効期限', value: row => row.valid_until, width: 12 },
+      { header: '内容', value: row => row.details, width: 48 },
+      { header: '作成者', value: row => usernameOf(row.user_id) },
+      { header: '作成日時', value: row => row.created_at, width: 20 },
+    ],
+  },
+  minutes: {
+    title: '打ち合わせ議事録',
+    columns: [
+      { header: 'ID', value: row => row.id, width: 8 },
+      { header: '開催日', value: row => row.date, width: 12 },
+      { header: '件名', value: row => row.title, width: 32 },
+      { header: 'プロジェクト', value: row => projectNameOf(row.project_id), width: 24 },
+      { header: '出席者', value: row => row.attendees, width: 32 },
+      { header: '議事内容', value: row => row.content, width: 60 },
+      { header: 'アクションアイテム', value: row => row.action_items, width: 48 },
+      { header: '未完了タスク', value: row => row.open_tasks },
+      { header: '作成者', value: row => usernameOf(row.user_id) },
+      { header: '登録日時', value: row => row.created_at, width: 20 },
+    ],
+  },
+};
+
+const findProject = (codeOrName: string) =>
+  db.prepare('SELECT id, name FROM projects WHERE code = ? OR name = ? ORDER BY code = ? DESC LIMIT 1').get(codeOrName, codeOrName, codeOrName) as { id: number; name: string } | undefined;
+const findUserId = (username: string) =>
+  db.prepare('SELECT id FROM users WHERE username = ?').pluck().get(username) as number | undefined;
+
+const projectField: ImportField = { field: 'project', label: 'プロジェクト', type: 'text', aliases: ['工事コード', 'project_id'] };
+const authorField = (label: string): ImportField =>
+  ({ field: 'author', label, type: 'text', aliases: ['登録者', '作成者', '報告者', 'username'].filter(alias => alias !== label) });
+
+// Rows that point at a project or user must name one that exists (an unknown project of an inspection is created)
+const checkReferences = (values: Record<string, any>, { freeTextProject = false } = {}): ImportError[] => [
+  ...(values.project && !freeTextProject && !findProject(values.project) ? [{ field: 'project', message: `Unknown project: ${values.project}` }] : []),
+  ...(values.author && !findUserId(values.author) ? [{ field: 'author', message: `Unknown user: ${values.author}` }] : []),
+];
+
+const IMPORT_COMMENT = 'CSV取込';
+
+// Bulk CSV import per record type. `insert` runs inside the import transaction; the author defaults to the importing user.
+const importSpecs: Record<string, {
+  fields: ImportField[];
+  // Field whose value may appear only once, in the file and in the table
+  unique?: { field: string; exists: (value: any) => boolean };
+  check?: (values: Record<string, any>) => ImportError[];
+  insert: (values: Record<string, any>, authorId: number, actorId: number) => number | bigint;
+}> = {
+  inspections: {
+    fields: [
+      projectField,
+      { field: 'date', label: '点検日', type: 'date', required: true },
+      { field: 'location', label: '場所', type: 'text', required: true },
+      { field: 'findings', label: '点検内容・所見', type: 'text', aliases: ['所見', '点検内容'] },
+      { field: 'status', label: 'ステータス', type: 'enum', values: INSPECTION_STATUS_LABELS },
+      authorField('登録者'),
+    ],
+    check: values => checkReferences(values, { freeTextProject: true }),
+    insert: (v, authorId) => {
+      const { project_id, project_name } = linkProjectName({ project_name: v.project });
+      return db.prepare('INSERT INTO inspections (user_id, project_id, project_name, date, location, findings, status) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(authorId, project_id, project_name, v.date, v.location, v.findings, v.status ?? 'pending').lastInsertRowid;
+    },
+  },
+  'trip-reports': {
+    fields: [
+      projectField,
+      { field: 'destination', label: '出張先', type: 'text', required: true, aliases: ['目的地'] },
+      { field: 'date_start', label: '開始日', type: 'date', required: true, aliases: ['出発日'] },
+      { field: 'date_end', label: '終了日', type: 'date', aliases: ['帰着日'] },
+      { field: 'purpose', label: '目的', type: 'text' },
+      { field: 'results', label: '結果・成果', type: 'text', aliases: ['結果', '成果'] },
+      { field: 'expenses', label: '経費合計', type: 'amount', aliases: ['経費'] },
+      { field: 'status', label: 'ステータス', type: 'enum', values: TRIP_REPORT_STATUS_LABELS },
+      authorField('報告者'),
+    ],
+    check: values => [
+      ...checkReferences(values),
+      ...(values.date_start && values.date_end && values.date_end < values.date_start ? [{ field: 'date_end', message: '終了日 is before 開始日' }] : []),
+    ],
+    // A historical total becomes a single その他 expense line
+    insert: (v, authorId, actorId) => {
+      const status = v.status ?? 'draft';
+      const { lastInsertRowid: id } = db.prepare('INSERT INTO trip_reports (user_id, project_id, destination, date_start, date_end, purpose, results, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(authorId, v.project ? findProject(v.project)!.id : null, v.destination, v.date_start, v.date_end ?? v.date_start, v.purpose, v.results, status);
+      saveTripExpenseItems(id, v.expenses ? [{ category: 'other', date: v.date_start, description: '経費合計（一括取込）', amount: v.expenses }] : []);
+      recordTripReportStatus(id, null, status, actorId, IMPORT_COMMENT);
+      return id;
+    },
+  },
+  estimates: {
+    fields: [
+      { field: 'estimate_no', label: '見積番号', type: 'text' },
+      { field: 'client_name', label: '顧客名', type: 'text', required: true, aliases: ['顧客', '得意先'] },
+      projectField,
+      { field: 'project_name', label: '工事名', type: 'text', aliases: ['件名'] },
+      { field: 'status', label: 'ステータス', type: 'enum', values: ESTIMATE_STATUS_LABELS },
+      { field: 'subtotal', label: '小計', type: 'amount', aliases: ['税抜金額'] },
+      { field: 'discount', label: '値引き', type: 'amount' },
+      { field: 'tax_rate', label: '消費税率', type: 'rate', aliases: ['税率'] },
+      { field: 'amount', label: '合計金額', type: 'amount', aliases: ['金額', '税込金額'] },
+      { field: 'valid_until', label: '有効期限', type: 'date' },
+      { field: 'details', label: '内容', type: 'text', aliases: ['詳細', '備考'] },
+      authorField('作成者'),
+    ],
+    unique: { field: 'estimate_no', exists: value => !!db.prepare('SELECT id FROM estimates WHERE estimate_no = ?').get(value) },
+    check: values => {
+      const errors = checkReferences(values);
+      if (values.subtotal === null && values.amount === null) {
+        errors.push({ field: 'amount', message: 'Either 小計 or 合計金額 is required' });
+      } else if (values.subtotal !== null && values.amount !== null) {
+        const totals = computeEstimateTotals([{ quantity: 1, unit_price: values.subtotal }], values.discount ?? 0, values.tax_rate ?? DEFAULT_TAX_RATE);
+        if (totals.amount !== values.amount) {
+          errors.push({ field: 'amount', message: `合計金額 does not match 小計, 値引き and 消費税率 (expected ${totals.amount})` });
+        }
+      }
+      return errors;
+    },
+    // The quoted amount becomes a single lump-sum line. Without 小計 the total is taken as tax-inclusive.
+    // The estimate is linked to the registered client of the same name, if any.
+    insert: (v, authorId, actorId) => {
+      const status = v.status ?? 'draft';
+      const taxIncluded = v.subtotal === null;
+      const { lastInsertRowid: id } = db.prepare(`
+        INSERT INTO estimates (user_id, project_id, client_id, client_name, project_name, details, status, discount, tax_rate, valid_until)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(authorId, v.project ? findProject(v.project)!.id : null, findClientByName(v.client_name)?.id ?? null, v.client_name, v.project_name, v.details, status,
+        taxIncluded ? 0 : v.discount ?? 0, taxIncluded ? 0 : v.tax_rate ?? DEFAULT_TAX_RATE, v.valid_until);
+      db.prepare('UPDATE estimates SET estimate_no = ? WHERE id = ?').run(v.estimate_no ?? formatEstimateNo(id), id);
+      saveEstimateItems(id, [{ category: '', name: '見積金額（一括取込）', spec: '', quantity: 1, unit: '式', unit_price: taxIncluded ? v.amount : v.subtotal }]);
+      recordEstimateStatus(id, null, status, actorId, IMPORT_COMMENT);
+      return id;
+    },
+  },
+  minutes: {
+    fields: [
+      { field: 'date', label: '開催日', type: 'date', required: true, aliases: ['日付'] },
+      { field: 'title', label: '件名', type: 'text', required: true, aliases: ['会議名'] },
+      projectField,
+      { field: 'attendees', label: '出席者', type: 'text', aliases: ['参加者'] },
+      { field: 'content', label: '議事内容', type: 'text', aliases: ['内容'] },
+      { field: 'action_items', label: 'アクションアイテム', type: 'text', aliases: ['宿題', 'タスク'] },
+      authorField('作成者'),
+    ],
+    check: values => checkReferences(values),
+    insert: (v, authorId) => {
+      const { lastInsertRowid: id } = db.prepare('INSERT INTO minutes (user_id, project_id, title, date, content) VALUES (?, ?, ?, ?, ?)')
+        .run(authorId, v.project ? findProject(v.project)!.id : null, v.title, v.date, v.content);
+      saveMinuteAttendees(id, v.attendees ?? '');
+      saveMinuteActionItems(id, v.action_items ?? '');
+      return id;
+    },
+  },
+};
+
+export const IMPORTABLE = Object.keys(importSpecs);
+
+// Validates a CSV file against the record type and, with `commit`, inserts every row in one transaction.
+// Nothing is written unless every row is valid. `mapping` overrides the automatic header -> field mapping.
+// Each imported record is audit-logged as created by the actor (`ip` is absent when run from the CLI).
+export function importRecords(name: string, text: string, { mapping = {}, actorId, ip = null, commit = false }: {
+  mapping?: ImportMapping;
+  actorId: number;
+  ip?: string | null;
+  commit?: boolean;
+}) {
+  const spec = importSpecs[name];
+  const [headerRow, ...data] = parseCsv(text);
+  if (!headerRow || data.length === 0) return { error: 'The file has no data rows' };
+  const headers = headerRow.map(header => header.trim());
+  const unknownHeader = Object.keys(mapping).find(header => !headers.includes(header));
+  if (unknownHeader) return { error: `No column named ${unknownHeader}` };
+  const unknownField = Object.values(mapping).find(field => field && !spec.fields.some(f => f.field === field));
+  if (unknownField) return { error: `Unknown field: ${unknownField}` };
+  const columns = { ...autoMapping(headers, spec.fields), ...mapping };
+  const mapped = Object.values(columns).filter(Boolean);
+  const duplicate = mapped.find((field, i) => mapped.indexOf(field) !== i);
+  if (duplicate) return { error: `More than one column is mapped to ${duplicate}` };
+
+  const rows = validateRows([headers, ...data], columns, spec.fields);
+  const seen = new Set<unknown>();
+  for (const row of rows) {
+    row.errors.push(...(spec.check?.(row.values) ?? []));
+    const key = spec.unique && row.values[spec.unique.field];
+    if (spec.unique && key !== null && key !== undefined) {
+      if (seen.has(key) || spec.unique.exists(key)) row.errors.push({ field: spec.unique.field, message: `Duplicate value: ${key}` });
+      seen.add(key);
+    }
+  }
+  const preview = {
+    headers,
+    mapping: columns,
+    fields: spec.fields.map(({ field, label, required }) => ({ field, label, required: !!required })),
+    rows,
+    total: rows.length,
+    invalid: rows.filter(row => row.errors.length > 0).length,
+  };
+  if (!commit) return preview;
+  if (preview.invalid > 0) return { ...preview, error: `${preview.invalid} of ${preview.total} rows have errors; nothing was imported` };
+
+  const ids = db.transaction(() => rows.map(row => {
+    const authorId = row.values.author ? findUserId(String(row.values.author))! : actorId;
+    const id = spec.insert(row.values, authorId, actorId);
+    recordAudit({ userId: actorId, ip }, 'create', name, id, null, auditSnapshot(name, id));
+    return id;
+  }))();
+  return { total: rows.length, imported: ids.length, ids };
+}
+
+type Action = 'read' | 'create' | 'update' | 'delete' | 'approve';
+
+const ALL_ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+// Which roles may perform each action on each resource. Admins are allowed everything.
+const permissions: Record<string, Partial<Record<Action, Role[]>>> = {
+  projects: { read: ALL_ROLES, create: ['manager'], update: ['manager'], delete: [] },
+  clients: { read: ['manager', 'sales', 'viewer', 'accounting'], create: ['manager', 'sales'], update: ['manager', 'sales'], delete: ['manager'] },
+  inspections: { read: ALL_ROLES, create: ['manager', 'inspector'], update: ['manager', 'inspector'], delete: ['manager'] },
+  'trip-reports': { read: ['manager', 'inspector', 'sales', 'accounting'], create: ['manager', 'inspector', 'sales'], update: ['manager', 'inspector', 'sales'], delete: ['manager'], approve: ['manager'] },
+  // Reimbursement: monthly summaries, the accounting export and marking approved reports as paid
+  'expense-payments': { read: ['manager', 'accounting'], update: ['accounting'] },
+  estimates: { read: ['manager', 'sales', 'viewer'], create: ['manager', 'sales'], update: ['manager', 'sales'], delete: ['manager'], approve: ['manager'] },
+  minutes: { read: ALL_ROLES, create: ['manager', 'inspector', 'sales'], update: ['manager', 'inspector', 'sales'], delete: ['manager'] },
+  users: { read: [], create: [], update: [], delete: [] },
+  // Entries are only ever written by the server
+  'audit-log': { read: [] },
+  'checklist-templates': { read: ALL_ROLES, create: ['manager'], update: ['manager'], delete: ['manager'] },
+  // approve is the inspector's verification of a remediated finding
+  'corrective-actions': { read: ALL_ROLES, create: ['manager', 'inspector'], update: ['manager', 'inspector'], delete: ['manager'], approve: ['manager', 'inspector'] },
+};
+
+const can = (role: string, resource: string, action: Action) =>
+  role === 'admin' || (permissions[resource]?.[action] ?? []).includes(role as Role);
+
+// Allowed actions per resource, sent to the client so it can hide what the role cannot use
+const permissionsFor = (role: string) => Object.fromEntries(
+  Object.keys(permissions).map(resource => [
+    resource,
+    (['read', 'create', 'update', 'delete', 'approve'] as Action[]).filter(action => can(role, resource, action)),
+  ])
+);
+
+// Normalizes project_id from a form body and keeps the denormalized project_name in sync
+const applyProject = (body: any) => {
+  if (!('project_id' in body)) return body;
+  const projectId = Number(body.project_id) || null;
+  const project: any = projectId ? db.prepare('SELECT name FROM projects WHERE id = ?').get(projectId) : null;
+  return { ...body, project_id: project ? projectId : null, ...(project && { project_name: project.name }) };
+};
+
+// Inspections may also name their project in free text (CSV import, the API). A name that matches no project
+// becomes one, as the names from before projects did (server/migrations/006_legacy_projects.ts), so an inspection
+// with a project name always has a project_id. Runs after applyProject.
+const linkProjectName = (body: any) => {
+  const name = typeof body.project_name === 'string' ? body.project_name.trim() : '';
+  if (body.project_id || !name) return { ...body, project_id: body.project_id || null, project_name: body.project_id ? body.project_name : null };
+  const project = findProject(name);
+  const projectId = project?.id ?? db.prepare('INSERT INTO projects (code, name) VALUES (?, ?)').run(nextProjectCode(), name).lastInsertRowid;
+  return { ...body, project_id: projectId, project_name: project?.name ?? name };
+};
+
+// Same for client_id: a selected client supplies the client name printed on the estimate,
+// and a typed name that matches a registered client is linked to it
+const applyClient = (body: any) => {
+  if (!('client_id' in body)) return body;
+  const clientId = Number(body.client_id) || null;
+  const client: any = clientId
+    ? db.prepare('SELECT id, name FROM clients WHERE id = ?').get(clientId)
+    : body.client_name ? findClientByName(body.client_name) : null;
+  return { ...body, client_id: client?.id ?? null, ...(client && { client_name: client.name }) };
+};
+
+// Inspections, trips and meetings overlapping a date range, for the schedule view and the calendar feed.
+// Only the types the role can read; `mine` keeps the user's own records and the meetings they attend.
+type CalendarType = 'inspections' | 'trip-reports' | 'minutes';
+
+interface CalendarEvent {
+  type: CalendarType;
+  id: number;
+  title: string;
+  start: string;
+  end: string;
+  status: string | null;
+  project_name: string | null;
+  location: string | null;
+  user_id: number | null;
+}
+
+const calendarEvents = (user: { id: number; role: string }, from: string, to: string, mine: boolean): CalendarEvent[] => {
+  const queries: Record<CalendarType, string> = {
+    inspections: `
+      SELECT 'inspections' AS type, id, COALESCE(project_name, location) AS title, date AS start, date AS "end", status, project_name, location, user_id
+      FROM inspections WHERE date BETWEEN @from AND @to ${mine ? 'AND user_id = @me' : ''}`,
+    'trip-reports': `
+      SELECT 'trip-reports' AS type, id, destination AS title, date_start AS start, COALESCE(date_end, date_start) AS "end", status,
+        (SELECT name FROM projects WHERE id = trip_reports.project_id) AS project_name, destination AS location, user_id
+      FROM trip_reports WHERE date_start <= @to AND COALESCE(date_end, date_start) >= @from ${mine ? 'AND user_id = @me' : ''}`,
+    minutes: `
+      SELECT 'minutes' AS type, id, title, date AS start, date AS "end", NULL AS status,
+        (SELECT name FROM projects WHERE id = minutes.project_id) AS project_name, NULL AS location, user_id
+      FROM minutes WHERE date BETWEEN @from AND @to
+      ${mine ? 'AND (user_id = @me OR EXISTS (SELECT 1 FROM minute_attendees a WHERE a.minute_id = minutes.id AND a.user_id = @me))' : ''}`,
+  };
+  const types = (Object.keys(queries) as CalendarType[]).filter(type => can(user.role, type, 'read'));
+  if (!types.length) return [];
+  return db.prepare(`${types.map(type => queries[type]).join(' UNION ALL ')} ORDER BY start, type, id`)
+    .all({ from, to, me: user.id }) as CalendarEvent[];
+};
+
+const CALENDAR_TYPE_LABELS: Record<CalendarType, string> = { inspections: '点検', 'trip-reports': '出張', minutes: '会議' };
+
+const hashCalendarToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Notifications
+// Reminders are derived from the records by generateNotifications, which the scheduler in startServer runs every few
+// minutes. The dedupe key names the occasion (the record plus e.g. its due date), so each occasion notifies once;
+// moving a due date or resubmitting an estimate is a new occasion.
+
+interface NotificationDraft {
+  kind: NotificationKind;
+  entity_type: string;
+  entity_id: number;
+  dedupe_key: string;
+  title: string;
+  body?: string | null;
+}
+
+const activeUsers = () => db.prepare('SELECT id, role FROM users WHERE active = 1').all() as { id: number; role: string }[];
+
+// Returns how many notifications were new
+const notify = (userIds: (number | null)[], draft: NotificationDraft) => {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO notifications (user_id, kind, entity_type, entity_id, dedupe_key, title, body)
+    SELECT id, @kind, @entity_type, @entity_id, @dedupe_key, @title, @body FROM users WHERE id = @user_id AND active = 1
+  `);
+  return [...new Set(userIds)].filter(id => id !== null)
+    .reduce((count, user_id) => count + insert.run({ body: null, ...draft, user_id }).changes, 0);
+};
+
+// Latest revision of each estimate
+const LATEST_ESTIMATE = 'NOT EXISTS (SELECT 1 FROM estimates newer WHERE newer.estimate_no = e.estimate_no AND newer.revision > e.revision)';
+const lastStatusChange = (status: string) =>
+  `(SELECT MAX(h.created_at) FROM estimate_status_history h WHERE h.estimate_id = e.id AND h.to_status = '${status}')`;
+
+const generateNotifications = () => db.transaction(() => {
+  const users = activeUsers();
+  const supervisors = users.filter(u => u.role === 'admin' || u.role === 'manager').map(u => u.id);
+  const approvers = users.filter(u => can(u.role, 'estimates', 'approve')).map(u => u.id);
+  const place = (row: { project_name: string | null; location: string | null }) => [row.project_name, row.location].filter(Boolean).join(' ') || '現場未設定';
+  let created = 0;
+
+  const tomorrow = nextDay(today());
+  for (const row of db.prepare(`SELECT id, user_id, date, project_name, location FROM inspections WHERE date = ? AND COALESCE(status, '') <> 'completed'`).all(tomorrow) as any[]) {
+    created += notify([row.user_id], {
+      kind: 'inspection_due', entity_type: 'inspections', entity_id: row.id, dedupe_key: `inspection_due:${row.id}:${row.date}`,
+      title: `明日（${row.date}）は点検予定です: ${place(row)}`,
+    });
+  }
+
+  for (const row of db.prepare(`SELECT id, user_id, date, project_name, location, findings FROM inspections WHERE status = 'urgent'`).all() as any[]) {
+    created += notify([row.user_id, ...supervisors], {
+      kind: 'urgent_finding', entity_type: 'inspections', entity_id: row.id, dedupe_key: `urgent_finding:${row.id}`,
+      title: `至急対応が必要な指摘があります: ${place(row)}`,
+      body: row.findings,
+    });
+  }
+
+  const submitted = db.prepare(`
+    SELECT e.id, e.estimate_no, e.client_name, e.project_name, e.amount, ${lastStatusChange('submitted')} AS submitted_at,
+      (SELECT h.user_id FROM estimate_status_history h WHERE h.estimate_id = e.id AND h.to_status = 'submitted' ORDER BY h.id DESC LIMIT 1) AS submitted_by
+    FROM estimates e WHERE e.status = 'submitted' AND ${LATEST_ESTIMATE}
+  `).all() as any[];
+  for (const row of submitted) {
+    // Approvers are not asked to approve their own request
+    created += notify(approvers.filter(id => id !== row.submitted_by), {
+      kind: 'estimate_approval', entity_type: 'estimates', entity_id: row.id, dedupe_key: `estimate_approval:${row.id}:${row.submitted_at}`,
+      title: `見積もりの承認依頼: ${row.client_name ?? ''} ${row.project_name ?? ''}`.trim(),
+      body: `見積番号 ${row.estimate_no} / 金額 ${Number(row.amount ?? 0).toLocaleString('ja-JP')}円（税込）`,
+    });
+  }
+
+  const overdueItems = db.prepare(`
+    SELECT a.id, a.minute_id, a.owner_id, a.description, a.due_date, m.title AS minute_title
+    FROM minute_action_items a JOIN minutes m ON m.id = a.minute_id
+    WHERE a.done = 0 AND a.owner_id IS NOT NULL AND a.due_date < ?
+  `).all(today()) as any[];
+  for (const row of overdueItems) {
+    created += notify([row.owner_id], {
+      kind: 'action_item_overdue', entity_type: 'minutes', entity_id: row.minute_id, dedupe_key: `action_item_overdue:${row.id}:${row.due_date}`,
+      title: `タスクの期限（${row.due_date}）を過ぎています: ${row.description}`,
+      body: `議事録: ${row.minute_title ?? ''}`,
+    });
+  }
+
+  // Sent, still valid, and no answer for a while
+  const staleQuotes = db.prepare(`
+    SELECT * FROM (
+      SELECT e.id, e.user_id, e.estimate_no, e.client_name, e.project_name, e.valid_until, ${lastStatusChange('sent')} AS sent_at
+      FROM estimates e WHERE e.status = 'sent' AND (e.valid_until IS NULL OR e.valid_until >= ?) AND ${LATEST_ESTIMATE}
+    ) WHERE sent_at < ?
+  `).all(today(), startOfDayUtc(addDays(today(), -QUOTE_FOLLOW_UP_DAYS))) as any[];
+  for (const row of staleQuotes) {
+    created += notify([row.user_id], {
+      kind: 'quote_follow_up', entity_type: 'estimates', entity_id: row.id, dedupe_key: `quote_follow_up:${row.id}:${row.sent_at}`,
+      title: `送付から${QUOTE_FOLLOW_UP_DAYS}日以上回答がありません: ${row.client_name ?? ''} ${row.project_name ?? ''}`.trim(),
+      body: `見積番号 ${row.estimate_no}${row.valid_until ? ` / 有効期限 ${row.valid_until}` : ''}`,
+    });
+  }
+
+  // Read notifications are kept for three months
+  db.prepare(`DELETE FROM notifications WHERE read_at IS NOT NULL AND read_at < datetime('now', '-90 days')`).run();
+  return created;
+})();
+
+// Newest first, for the bell and the dashboard
+const userNotifications = (userId: number, limit: number, unreadOnly = false) => db.prepare(`
+  SELECT id, kind, entity_type, entity_id, title, body, read_at, created_at FROM notifications
+  WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''} ORDER BY id DESC LIMIT ?
+`).all(userId, limit);
+
+// Emails the notifications not sent yet, skipping ones older than a day so a mail server that was down does not
+// flood inboxes with stale reminders once it is back. Stops at the first failure and retries on the next run.
+const emailNotifications = async (transport: MailTransport) => {
+  const pending = db.prepare(`
+    SELECT n.id, n.kind, n.title, n.body, u.email FROM notifications n JOIN users u ON u.id = n.user_id
+    WHERE n.emailed_at IS NULL AND n.read_at IS NULL AND u.active = 1 AND u.email IS NOT NULL AND n.created_at >= datetime('now', '-1 day')
+    ORDER BY n.id
+  `).all() as any[];
+  const appUrl = process.env.APP_URL?.startsWith('http') ? process.env.APP_URL : null;
+  for (const notification of pending) {
+    try {
+      await transport.send({
+        to: notification.email,
+        subject: `[建設管理 Pro] ${NOTIFICATION_KIND_LABELS[notification.kind as NotificationKind] ?? ''}: ${notification.title}`,
+        text: [notification.title, notification.body, appUrl && `\n${appUrl}`].filter(Boolean).join('\n'),
+      });
+    } catch (error) {
+      console.error('Sending notification email failed:', error);
+      return;
+    }
+    db.prepare(`UPDATE notifications SET emailed_at = CURRENT_TIMESTAMP WHERE id = ?`).run(notification.id);
+  }
+};
+
 declare module 'express-session' {
   interface SessionData {
     userId: number;
@@ -81,6 +1090,8 @@ declare module 'express-session' {
 async function startServer() {
   const app = express();
   const PORT = 3000;
+  // Null when no Gemini key is configured; the client then hides the drafting buttons
+  const aiModel = createAiModel();
 
   app.use(express.json());
   app.use(session({
@@ -95,90 +1106,1087 @@ async function startServer() {
   }));
 
   // Auth Middleware
+  // The user is read from the database on every request so role changes and deactivation apply immediately
   const authenticate = (req: any, res: any, next: any) => {
-    if (req.session.userId) {
+    const user: any = req.session.userId && db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ? AND active = 1`).get(req.session.userId);
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+    } else if (user.must_change_password && req.path !== '/api/me/password') {
+      res.status(403).json({ error: 'Password change required' });
+    } else {
+      req.user = user;
+      next();
+    }
+  };
+
+  const authorize = (resource: string, action: Action) => (req: any, res: any, next: any) => {
+    if (can(req.user.role, resource, action)) {
       next();
     } else {
-      res.status(401).json({ error: 'Unauthorized' });
+      res.status(403).json({ error: 'Forbidden' });
     }
   };
 
+  const auditActor = (req: any): AuditActor => ({ userId: req.user?.id ?? req.session.userId ?? null, ip: req.ip ?? null });
+  // Logs a change to one record with its state after the change; updates and deletes pass the snapshot taken before
+  const audit = (req: any, action: 'create' | 'update' | 'delete', entity: string, id: number | bigint | string, before: unknown = null) =>
+    recordAudit(auditActor(req), action, entity, id, before, action === 'delete' ? null : auditSnapshot(entity, id));
+
   // Auth Routes
-  app.post('/api/login', (req, res) => {
+  app.post('/api/login', validate(loginSchema), (req, res) => {
     const { username, password } = req.body;
     const user: any = db.prepare('SELECT * FROM users WHERE username = ?').get(username);
     if (user && bcrypt.compareSync(password, user.password)) {
+      if (!user.active) {
+        recordAudit({ userId: user.id, ip: req.ip }, 'login_failed', 'users', user.id);
+        return res.status(403).json({ error: 'Account disabled' });
+      }
       req.session.userId = user.id;
       req.session.username = user.username;
-      res.json({ id: user.id, username: user.username, role: user.role });
+      recordAudit({ userId: user.id, ip: req.ip }, 'login', 'users', user.id);
+      res.json({
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        must_change_password: !!user.must_change_password,
+        permissions: permissionsFor(user.role),
+        ai_drafting: !!aiModel,
+      });
     } else {
+      // Unknown usernames are kept too, as they may show someone guessing accounts
+      recordAudit({ userId: user?.id ?? null, username, ip: req.ip }, 'login_failed', user ? 'users' : null, user?.id ?? null);
       res.status(401).json({ error: 'Invalid credentials' });
     }
   });
 
   app.post('/api/logout', (req, res) => {
+    if (req.session.userId) recordAudit({ userId: req.session.userId, ip: req.ip }, 'logout', 'users', req.session.userId);
     req.session.destroy(() => {
       res.json({ success: true });
     });
   });
 
   app.get('/api/me', (req: any, res) => {
-    if (req.session.userId) {
-      res.json({ id: req.session.userId, username: req.session.username });
+    const user: any = req.session.userId && db.prepare('SELECT id, username, role, must_change_password FROM users WHERE id = ? AND active = 1').get(req.session.userId);
+    if (user) {
+      res.json({ ...user, must_change_password: !!user.must_change_password, permissions: permissionsFor(user.role), ai_drafting: !!aiModel });
     } else {
       res.status(401).json({ error: 'Not logged in' });
     }
   });
 
-  // Business Logic Routes
-  // Inspections
-  app.get('/api/inspections', authenticate, (req: any, res) => {
-    const rows = db.prepare('SELECT * FROM inspections ORDER BY created_at DESC').all();
+  app.post('/api/me/password', authenticate, validate(passwordChangeSchema), (req: any, res) => {
+    const { current_password, new_password } = req.body;
+    const user: any = db.prepare('SELECT password FROM users WHERE id = ?').get(req.user.id);
+    if (!bcrypt.compareSync(current_password, user.password)) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+    if (new_password === current_password) {
+      return res.status(400).json({ error: 'New password must differ from the current one' });
+    }
+    const before = auditSnapshot('users', req.user.id);
+    db.prepare('UPDATE users SET password = ?, must_change_password = 0 WHERE id = ?').run(bcrypt.hashSync(new_password, 10), req.user.id);
+    recordAudit(auditActor(req), 'update', 'users', req.user.id, before, { ...auditSnapshot('users', req.user.id), password: PASSWORD_CHANGED });
+    res.json({ success: true });
+  });
+
+  // User Management (admin only)
+  app.get('/api/users', authenticate, authorize('users', 'read'), (req: any, res) => {
+    const rows = db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`).all();
     res.json(rows);
   });
-  app.post('/api/inspections', authenticate, (req: any, res) => {
-    const { project_name, date, location, findings, status } = req.body;
-    const result = db.prepare('INSERT INTO inspections (user_id, project_name, date, location, findings, status) VALUES (?, ?, ?, ?, ?, ?)')
-      .run(req.session.userId, project_name, date, location, findings, status);
+  app.post('/api/users', authenticate, authorize('users', 'create'), validate(userCreateSchema), (req: any, res) => {
+    const { username, password, role, email } = req.body;
+    if (db.prepare('SELECT id FROM users WHERE username = ?').get(username)) {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+    // Accounts created by an admin start with a temporary password
+    const result = db.prepare('INSERT INTO users (username, password, role, email, must_change_password) VALUES (?, ?, ?, ?, 1)')
+      .run(username, bcrypt.hashSync(password, 10), role, email ?? null);
+    audit(req, 'create', 'users', result.lastInsertRowid);
     res.json({ id: result.lastInsertRowid });
   });
+  // Active accounts for assignee pickers, available to every signed-in user
+  app.get('/api/users/options', authenticate, (req: any, res) => {
+    const rows = db.prepare('SELECT id, username, role FROM users WHERE active = 1 ORDER BY username').all();
+    res.json(rows);
+  });
+  app.get('/api/users/:id', authenticate, authorize('users', 'read'), (req: any, res) => {
+    const user = db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(req.params.id);
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    res.json(user);
+  });
+  // Role, activation and password reset; omitted fields are left unchanged
+  const updateUser = (req: any, res: any) => {
+    const user: any = db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(req.params.id);
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    const { role, active, password, email } = req.body;
+    const isActive = active ?? !!user.active;
+    if (user.id === req.user.id && ((role !== undefined && role !== user.role) || !isActive)) {
+      return res.status(400).json({ error: 'You cannot change your own role or deactivate yourself' });
+    }
+    const before = auditSnapshot('users', user.id);
+    db.prepare('UPDATE users SET role = ?, active = ?, email = ? WHERE id = ?').run(role ?? user.role, isActive ? 1 : 0, email === undefined ? user.email : email, user.id);
+    if (password) {
+      db.prepare('UPDATE users SET password = ?, must_change_password = 1 WHERE id = ?').run(bcrypt.hashSync(password, 10), user.id);
+    }
+    recordAudit(auditActor(req), 'update', 'users', user.id, before, { ...auditSnapshot('users', user.id), ...(password && { password: PASSWORD_CHANGED }) });
+    res.json(db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(user.id));
+  };
+  app.put('/api/users/:id', authenticate, authorize('users', 'update'), validate(userUpdateSchema), updateUser);
+  app.patch('/api/users/:id', authenticate, authorize('users', 'update'), validate(userUpdateSchema), updateUser);
+  app.delete('/api/users/:id', authenticate, authorize('users', 'delete'), (req: any, res) => {
+    if (Number(req.params.id) === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete yourself' });
+    }
+    const before = auditSnapshot('users', req.params.id);
+    const result = db.prepare('DELETE FROM users WHERE id = ?').run(req.params.id);
+    if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+    audit(req, 'delete', 'users', req.params.id, before);
+    res.json({ success: true });
+  });
 
-  // Trip Reports
-  app.get('/api/trip-reports', authenticate, (req: any, res) => {
-    const rows = db.prepare('SELECT * FROM trip_reports ORDER BY created_at DESC').all();
+  // Audit log, newest first. Filters: username, action, entity_type, entity_id and from / to (calendar days in the
+  // company's time zone). Pages hold AUDIT_PAGE_SIZE entries; pass next_cursor back as ?cursor= for the next one.
+  const AUDIT_PAGE_SIZE = 100;
+  app.get('/api/audit-log', authenticate, authorize('audit-log', 'read'), (req: any, res) => {
+    const str = (key: string) => typeof req.query[key] === 'string' ? req.query[key].trim() : '';
+    const conditions = ['1 = 1'];
+    const params: unknown[] = [];
+    for (const key of ['username', 'action', 'entity_type', 'entity_id']) {
+      if (!str(key)) continue;
+      conditions.push(`${key} = ?`);
+      params.push(str(key));
+    }
+    if (str('action') && !(str('action') in AUDIT_ACTION_LABELS)) return res.status(400).json({ error: 'Invalid action' });
+    if ([str('from'), str('to')].some(date => date && !isDateString(date))) return res.status(400).json({ error: 'Invalid date range' });
+    if (str('from')) {
+      conditions.push('created_at >= ?');
+      params.push(startOfDayUtc(str('from')));
+    }
+    if (str('to')) {
+      conditions.push('created_at < ?');
+      params.push(startOfDayUtc(nextDay(str('to'))));
+    }
+    if (str('cursor')) {
+      conditions.push('id < ?');
+      params.push(Number(str('cursor')) || 0);
+    }
+    const rows = db.prepare(`SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ${AUDIT_PAGE_SIZE + 1}`)
+      .all(...params) as any[];
+    const items = rows.slice(0, AUDIT_PAGE_SIZE).map(row => ({
+      ...row,
+      before: row.before === null ? null : JSON.parse(row.before),
+      after: row.after === null ? null : JSON.parse(row.after),
+    }));
+    res.json({ items, next_cursor: rows.length > AUDIT_PAGE_SIZE ? String(items[items.length - 1].id) : null });
+  });
+
+  // Business Logic Routes
+  // Projects
+  const projectCodeTaken = (code: string, exceptId = 0) => !!db.prepare('SELECT id FROM projects WHERE code = ? AND id <> ?').get(code, exceptId);
+  const duplicateProjectCode = { error: 'Validation failed', fields: { code: 'この工事コードは既に使われています' } };
+  app.get('/api/projects', authenticate, authorize('projects', 'read'), (req: any, res) => {
+    const rows = db.prepare('SELECT * FROM projects ORDER BY created_at DESC').all();
     res.json(rows);
   });
-  app.post('/api/trip-reports', authenticate, (req: any, res) => {
-    const { destination, date_start, date_end, purpose, results, expenses } = req.body;
-    const result = db.prepare('INSERT INTO trip_reports (user_id, destination, date_start, date_end, purpose, results, expenses) VALUES (?, ?, ?, ?, ?, ?, ?)')
-      .run(req.session.userId, destination, date_start, date_end, purpose, results, expenses);
+  app.post('/api/projects', authenticate, authorize('projects', 'create'), validate(projectSchema), (req: any, res) => {
+    const { code, name, client, site_address, start_date, end_date, status } = req.body;
+    if (code && projectCodeTaken(code)) return res.status(409).json(duplicateProjectCode);
+    const result = db.prepare('INSERT INTO projects (code, name, client, site_address, start_date, end_date, status) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(code || nextProjectCode(), name, client, site_address, start_date, end_date, status ?? 'active');
+    audit(req, 'create', 'projects', result.lastInsertRowid);
     res.json({ id: result.lastInsertRowid });
   });
+  app.get('/api/projects/:id/timeline', authenticate, authorize('projects', 'read'), (req: any, res) => {
+    const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(req.params.id);
+    if (!project) return res.status(404).json({ error: 'Not found' });
+    const queries: Record<string, string> = {
+      inspections: `SELECT 'inspections' AS type, id, date, location AS title, findings AS summary, status FROM inspections WHERE project_id = ?`,
+      'trip-reports': `SELECT 'trip-reports' AS type, id, date_start AS date, destination AS title, purpose AS summary, NULL AS status FROM trip_reports WHERE project_id = ?`,
+      estimates: `SELECT 'estimates' AS type, id, DATE(created_at) AS date, client_name AS title, details AS summary, status FROM estimates WHERE project_id = ?`,
+      minutes: `SELECT 'minutes' AS type, id, date, title, content AS summary, NULL AS status FROM minutes WHERE project_id = ?`,
+    };
+    const items = Object.entries(queries)
+      .filter(([resource]) => can(req.user.role, resource, 'read'))
+      .flatMap(([, sql]) => db.prepare(sql).all(req.params.id)) as { date: string | null }[];
+    items.sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+    res.json({ project, items });
+  });
 
-  // Estimates
-  app.get('/api/estimates', authenticate, (req: any, res) => {
-    const rows = db.prepare('SELECT * FROM estimates ORDER BY created_at DESC').all();
+  // Clients
+  const duplicateClient = (name: string) => ({ error: 'Validation failed', fields: { name: `この顧客は既に登録されています（${name}）` } });
+  app.get('/api/clients', authenticate, authorize('clients', 'read'), (req: any, res) => {
+    const rows = db.prepare(`
+      SELECT c.*,
+        (SELECT COUNT(DISTINCT estimate_no) FROM estimates WHERE client_id = c.id) AS estimate_count,
+        (SELECT name FROM client_contacts WHERE client_id = c.id ORDER BY sort_order, id LIMIT 1) AS primary_contact
+      FROM clients c ORDER BY COALESCE(NULLIF(c.name_kana, ''), c.name)
+    `).all();
     res.json(rows);
   });
-  app.post('/api/estimates', authenticate, (req: any, res) => {
-    const { client_name, project_name, amount, details, status } = req.body;
-    const result = db.prepare('INSERT INTO estimates (user_id, client_name, project_name, amount, details, status) VALUES (?, ?, ?, ?, ?, ?)')
-      .run(req.session.userId, client_name, project_name, amount, details, status);
-    res.json({ id: result.lastInsertRowid });
+  app.post('/api/clients', authenticate, authorize('clients', 'create'), validate(clientSchema), (req: any, res) => {
+    const { name, name_kana, postal_code, address, phone, billing_name, billing_address, invoice_number, payment_terms, notes, contacts } = req.body;
+    const duplicate = findClientByName(name);
+    if (duplicate) return res.status(409).json(duplicateClient(duplicate.name));
+    const id = db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO clients (name, name_key, name_kana, postal_code, address, phone, billing_name, billing_address, invoice_number, payment_terms, notes)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(name, normalizeClientName(name), name_kana, postal_code, address, phone, billing_name, billing_address, invoice_number, payment_terms, notes);
+      saveClientContacts(result.lastInsertRowid, contacts ?? []);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'clients', id);
+    res.json({ id });
+  });
+  // Everything quoted to a client (latest revision of each estimate), its win/loss record and the meetings about it.
+  // Meetings count when they belong to a project quoted to the client or an external attendee came from the client.
+  app.get('/api/clients/:id/summary', authenticate, authorize('clients', 'read'), (req: any, res) => {
+    const client: any = db.prepare('SELECT * FROM clients WHERE id = ?').get(req.params.id);
+    if (!client) return res.status(404).json({ error: 'Not found' });
+    const estimates = can(req.user.role, 'estimates', 'read') ? db.prepare(`
+      SELECT e.id, e.estimate_no, e.revision, e.project_id, e.project_name, e.amount, e.status, e.valid_until, e.created_at
+      FROM estimates e
+      WHERE e.client_id = ? AND e.revision = (SELECT MAX(revision) FROM estimates WHERE estimate_no = e.estimate_no)
+      ORDER BY e.created_at DESC
+    `).all(client.id) as any[] : [];
+    const sum = (rows: any[]) => rows.reduce((total, row) => total + (row.amount ?? 0), 0);
+    const won = estimates.filter(e => e.status === 'accepted');
+    const lost = estimates.filter(e => e.status === 'rejected');
+    let minutes: unknown[] = [];
+    if (can(req.user.role, 'minutes', 'read')) {
+      const organizations = (db.prepare("SELECT DISTINCT organization FROM minute_attendees WHERE TRIM(COALESCE(organization, '')) <> ''").pluck().all() as string[])
+        .filter(organization => normalizeClientName(organization) === client.name_key);
+      minutes = db.prepare(`
+        SELECT m.id, m.title, m.date, m.project_id, p.name AS project_name FROM minutes m
+        LEFT JOIN projects p ON p.id = m.project_id
+        WHERE m.project_id IN (SELECT project_id FROM estimates WHERE client_id = ?)
+          OR m.id IN (SELECT minute_id FROM minute_attendees WHERE organization IN (${organizations.map(() => '?').join(', ') || 'NULL'}))
+        ORDER BY m.date DESC, m.id DESC
+      `).all(client.id, ...organizations);
+    }
+    res.json({
+      client: resources.clients.expand!(client),
+      estimates,
+      stats: {
+        estimate_count: estimates.length,
+        total_amount: sum(estimates),
+        won_count: won.length,
+        won_amount: sum(won),
+        lost_count: lost.length,
+        // Only decided estimates count; null until the first one is won or lost
+        win_rate: won.length + lost.length > 0 ? won.length / (won.length + lost.length) : null,
+      },
+      minutes,
+    });
+  });
+
+  // Record lists take the query parameters documented in server/listQuery.ts and return one page
+  const listRecords = (name: string) => (req: any, res: any) => {
+    const query = buildListQuery(listSpecs[name], req.query, req.user.id);
+    if ('error' in query) return res.status(400).json({ error: query.error });
+    res.json(toPage(db.prepare(query.sql).all(...query.params) as any[], query.limit));
+  };
+
+  // Bulk import: the CSV file is the request body. ?mapping= is a JSON object of header -> field that overrides
+  // the automatic mapping. Without ?commit=1 nothing is written and the validated rows are returned as a preview.
+  for (const name of IMPORTABLE) {
+    app.post(`/api/${name}/import`, authenticate, authorize(name, 'create'), express.text({ type: 'text/csv', limit: '20mb' }), (req: any, res) => {
+      if (typeof req.body !== 'string') return res.status(400).json({ error: 'Send the file as text/csv' });
+      let mapping: ImportMapping = {};
+      try {
+        mapping = req.query.mapping ? JSON.parse(req.query.mapping) : {};
+        if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) throw new Error();
+      } catch {
+        return res.status(400).json({ error: 'Invalid mapping' });
+      }
+      const result = importRecords(name, req.body, { mapping, actorId: req.user.id, ip: req.ip, commit: req.query.commit === '1' });
+      res.status('error' in result ? 400 : 200).json(result);
+    });
+  }
+
+  // Every row matching the list filters as ?format=csv (default) or xlsx
+  const exportRecords = (name: string) => asyncHandler(async (req: any, res: any) => {
+    const format = (req.query.format || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) return res.status(400).json({ error: `Unsupported format: ${format}` });
+    const query = buildListQuery(listSpecs[name], req.query, req.user.id, { paginate: false });
+    if ('error' in query) return res.status(400).json({ error: query.error });
+    const { title, columns } = exportSpecs[name];
+    const rows = db.prepare(query.sql).all(...query.params) as any[];
+    const file = await renderExport(format, title, columns, rows);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}-${today()}.${format}"; filename*=UTF-8''${encodeURIComponent(`${title}_${today()}.${format}`)}`);
+    res.send(file);
+  });
+
+  // Global search: the best matches of every record type the caller may read
+  const searchSummaries: Record<string, (row: any) => { title: string; subtitle: string; date: string | null }> = {
+    inspections: row => ({ title: row.project_name || row.location, subtitle: row.findings ?? '', date: row.date }),
+    'trip-reports': row => ({ title: row.destination, subtitle: row.purpose ?? '', date: row.date_start }),
+    estimates: row => ({ title: `${row.estimate_no} ${row.client_name ?? ''}`, subtitle: row.project_name ?? '', date: String(row.created_at).slice(0, 10) }),
+    minutes: row => ({ title: row.title, subtitle: row.content ?? '', date: row.date }),
+  };
+  app.get('/api/search', authenticate, (req: any, res) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) return res.json({});
+    const results = Object.fromEntries(Object.entries(listSpecs)
+      .filter(([name]) => can(req.user.role, name, 'read'))
+      .map(([name, spec]) => {
+        const query = buildListQuery(spec, { q, limit: '5' }, req.user.id) as { sql: string; params: unknown[]; limit: number };
+        const { items } = toPage(db.prepare(query.sql).all(...query.params) as any[], query.limit);
+        return [name, items.map(row => ({ id: row.id, ...searchSummaries[name](row) }))];
+      }));
+    res.json(results);
+  });
+
+  // AI drafting: each route answers with a draft for the form the user is editing and saves nothing
+  const draftRoute = (draft: (model: AiModel, req: any) => Promise<unknown>) => asyncHandler(async (req: any, res: any) => {
+    if (!aiModel) return res.status(503).json({ error: 'AI drafting is not configured' });
+    try {
+      res.json(await draft(aiModel, req));
+    } catch (err) {
+      // Network, quota and malformed answers alike: the user can retry or write the text themselves
+      console.error(err);
+      res.status(502).json({ error: 'AI drafting failed' });
+    }
+  });
+  app.post('/api/ai/minutes', authenticate, authorize('minutes', 'create'), validate(minutesDraftSchema), draftRoute((model, req) =>
+    draftMinutes(model, req.body, db.prepare('SELECT id, username FROM users WHERE active = 1 ORDER BY username').all() as { id: number; username: string }[])));
+  app.post('/api/ai/inspection-summary', authenticate, authorize('inspections', 'create'), validate(inspectionSummarySchema), draftRoute((model, req) =>
+    summarizeFindings(model, req.body)));
+  app.post('/api/ai/estimate-items', authenticate, authorize('estimates', 'create'), validate(estimateItemsDraftSchema), draftRoute((model, req) =>
+    suggestEstimateItems(model, req.body)));
+
+  // Dashboard
+  // KPIs over an optional ?from=&to= date range. Sections the caller's role cannot read are returned as null.
+  // Open corrective actions and meeting action items are current state and ignore the range.
+  app.get('/api/dashboard', authenticate, (req: any, res) => {
+    const { from = '', to = '' } = req.query;
+    if ((from && !isDateString(from)) || (to && !isDateString(to))) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+    // Each open end of the range matches everything
+    const inRange = (column: string) => `(? = '' OR ${column} >= ?) AND (? = '' OR ${column} <= ?)`;
+    const rangeParams = [from, from, to, to];
+    const allowed = (resource: string) => can(req.user.role, resource, 'read');
+    refreshOverdueInspections();
+
+    const inspections = allowed('inspections') ? {
+      ...db.prepare(`
+        SELECT COUNT(*) AS total,
+          COALESCE(SUM(status = 'pending'), 0) AS pending,
+          COALESCE(SUM(status = 'urgent'), 0) AS urgent,
+          COALESCE(SUM(status = 'completed'), 0) AS completed
+        FROM inspections WHERE ${inRange('date')}
+      `).get(...rangeParams) as object,
+      recent: db.prepare(`SELECT * FROM inspections WHERE ${inRange('date')} ORDER BY date DESC, id DESC LIMIT 5`).all(...rangeParams),
+    } : null;
+
+    let estimates = null;
+    if (allowed('estimates')) {
+      const byStatus = db.prepare(`
+        SELECT status, COUNT(*) AS count, COALESCE(SUM(amount), 0) AS amount FROM estimates e
+        WHERE revision = (SELECT MAX(revision) FROM estimates WHERE estimate_no = e.estimate_no) AND ${inRange('DATE(created_at)')}
+        GROUP BY status
+      `).all(...rangeParams) as { status: string; count: number; amount: number }[];
+      const count = (status: string) => byStatus.find(row => row.status === status)?.count ?? 0;
+      const decided = count('accepted') + count('rejected');
+      estimates = {
+        pipeline: byStatus,
+        // Quotes still in play: everything not yet accepted or rejected
+        open_value: byStatus.filter(row => !['accepted', 'rejected'].includes(row.status)).reduce((sum, row) => sum + row.amount, 0),
+        won_value: byStatus.find(row => row.status === 'accepted')?.amount ?? 0,
+        win_rate: decided > 0 ? count('accepted') / decided : null,
+      };
+    }
+
+    let trips = null;
+    if (allowed('trip-reports')) {
+      const rows = db.prepare(`
+        SELECT SUBSTR(date_start, 1, 7) AS month, COUNT(*) AS count, COALESCE(SUM(expenses), 0) AS expenses FROM trip_reports
+        WHERE date_start IS NOT NULL AND ${inRange('date_start')}
+        GROUP BY month ORDER BY month
+      `).all(...rangeParams) as { month: string; count: number; expenses: number }[];
+      // Fill in months without trips so the chart keeps an even time axis
+      const monthly = [];
+      if (rows.length > 0) {
+        const cursor = new Date(`${rows[0].month}-01T00:00:00Z`);
+        const last = rows[rows.length - 1].month;
+        while (monthly.length < 120) {
+          const month = cursor.toISOString().slice(0, 7);
+          monthly.push(rows.find(row => row.month === month) ?? { month, count: 0, expenses: 0 });
+          if (month >= last) break;
+          cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+        }
+      }
+      trips = { monthly, total: rows.reduce((sum, row) => sum + row.expenses, 0) };
+    }
+
+    const actionItems = {
+      corrective_open: allowed('corrective-actions')
+        ? db.prepare(`SELECT COUNT(*) FROM corrective_actions WHERE status <> 'verified'`).pluck().get() as number : null,
+      corrective_overdue: allowed('corrective-actions')
+        ? db.prepare(`SELECT COUNT(*) FROM corrective_actions WHERE status <> 'verified' AND due_date < ?`).pluck().get(today()) as number : null,
+      tasks_open: allowed('minutes')
+        ? db.prepare('SELECT COUNT(*) FROM minute_action_items WHERE done = 0').pluck().get() as number : null,
+      tasks_overdue: allowed('minutes')
+        ? db.prepare('SELECT COUNT(*) FROM minute_action_items WHERE done = 0 AND due_date < ?').pluck().get(today()) as number : null,
+    };
+    const overdueActions = allowed('corrective-actions')
+      ? getCorrectiveActions(`a.status <> 'verified' AND a.due_date < ?`, today()).slice(0, 5)
+      : [];
+
+    const overdueTasks = allowed('minutes')
+      ? getActionItems('a.done = 0 AND a.due_date < ?', today()).slice(0, 5)
+      : [];
+
+    res.json({
+      range: { from, to }, inspections, estimates, trips,
+      action_items: actionItems, overdue_actions: overdueActions, overdue_tasks: overdueTasks,
+      notifications: userNotifications(req.user.id, 5, true),
+    });
+  });
+
+  // Schedule
+  // Records overlapping ?from=&to= (at most a little over a year); ?mine=1 keeps the caller's own schedule
+  app.get('/api/calendar', authenticate, (req: any, res) => {
+    const { from, to, mine } = req.query;
+    if (!isDateString(from) || !isDateString(to) || from > to || addDays(from, 400) < to) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+    res.json(calendarEvents(req.user, from, to, !!mine));
+  });
+
+  // Calendar apps cannot sign in, so the feed URL carries a secret of its own. Issuing a new URL revokes the old one.
+  app.get('/api/me/calendar-feed', authenticate, (req: any, res) => {
+    res.json({ active: !!db.prepare('SELECT calendar_token FROM users WHERE id = ?').pluck().get(req.user.id) });
+  });
+  app.post('/api/me/calendar-feed', authenticate, (req: any, res) => {
+    const token = crypto.randomBytes(24).toString('base64url');
+    db.prepare('UPDATE users SET calendar_token = ? WHERE id = ?').run(hashCalendarToken(token), req.user.id);
+    res.json({ active: true, url: `${req.protocol}://${req.get('host')}/api/calendar.ics?token=${token}` });
+  });
+  app.delete('/api/me/calendar-feed', authenticate, (req: any, res) => {
+    db.prepare('UPDATE users SET calendar_token = NULL WHERE id = ?').run(req.user.id);
+    res.json({ active: false });
+  });
+
+  // Notifications of the signed-in user, newest first, with the unread count for the bell; ?unread=1 leaves out read ones
+  app.get('/api/notifications', authenticate, (req: any, res) => {
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    res.json({
+      items: userNotifications(req.user.id, limit, !!req.query.unread),
+      unread_count: db.prepare('SELECT COUNT(*) FROM notifications WHERE user_id = ? AND read_at IS NULL').pluck().get(req.user.id),
+    });
+  });
+  app.patch('/api/notifications/:id', authenticate, validate(notificationUpdateSchema), (req: any, res) => {
+    const result = db.prepare(`UPDATE notifications SET read_at = ${req.body.read ? 'COALESCE(read_at, CURRENT_TIMESTAMP)' : 'NULL'} WHERE id = ? AND user_id = ?`)
+      .run(req.params.id, req.user.id);
+    if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  });
+  app.post('/api/notifications/read-all', authenticate, (req: any, res) => {
+    db.prepare('UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL').run(req.user.id);
+    res.json({ success: true });
+  });
+
+  // The feed owner's schedule from three months back to a year ahead
+  app.get('/api/calendar.ics', (req: any, res) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const user: any = token && db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE calendar_token = ? AND active = 1`).get(hashCalendarToken(token));
+    if (!user) return res.status(401).json({ error: 'Invalid calendar token' });
+    const statusLabels: Partial<Record<CalendarType, Record<string, string>>> = {
+      inspections: INSPECTION_STATUS_LABELS,
+      'trip-reports': TRIP_REPORT_STATUS_LABELS,
+    };
+    const events = calendarEvents(user, addDays(today(), -90), addDays(today(), 365), true).map(event => ({
+      uid: `${event.type}-${event.id}@construction-app`,
+      start: event.start,
+      end: event.end,
+      summary: `[${CALENDAR_TYPE_LABELS[event.type]}] ${event.title ?? ''}`,
+      location: event.location,
+      description: [
+        event.project_name && `プロジェクト: ${event.project_name}`,
+        event.status && `ステータス: ${labelOf(statusLabels[event.type] ?? {}, event.status)}`,
+      ].filter(Boolean).join('\n'),
+    }));
+    res.set('Cache-Control', 'no-cache');
+    res.type('text/calendar; charset=utf-8').send(buildIcs(`建設管理 Pro（${user.username}）`, events));
+  });
+
+  // Inspections
+  const refreshBeforeListing = (req: any, res: any, next: any) => {
+    refreshOverdueInspections();
+    next();
+  };
+  app.get('/api/inspections', authenticate, authorize('inspections', 'read'), refreshBeforeListing, listRecords('inspections'));
+  app.get('/api/inspections/export', authenticate, authorize('inspections', 'read'), refreshBeforeListing, exportRecords('inspections'));
+  // Inspections entered offline carry an Idempotency-Key; uploading the same one again answers with the stored record
+  app.post('/api/inspections', authenticate, authorize('inspections', 'create'), validate(inspectionSchema), (req: any, res) => {
+    const clientKey = req.get('Idempotency-Key') || null;
+    const stored = clientKey && db.prepare('SELECT id FROM inspections WHERE client_key = ?').pluck().get(clientKey);
+    if (stored) return res.json({ id: stored });
+    const template = req.body.template_id ? getChecklistTemplate(req.body.template_id) : null;
+    const id = db.transaction(() => {
+      const { project_id, project_name, date, location, findings, status, checklist } = linkProjectName(applyProject(req.body));
+      const result = db.prepare('INSERT INTO inspections (user_id, project_id, project_name, date, location, findings, status, template_id, client_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(req.session.userId, project_id, project_name, date, location, findings, status, template?.id ?? null, clientKey);
+      // Without filled-in rows the template is copied ungraded
+      saveInspectionChecklist(result.lastInsertRowid, checklist ?? template?.items);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'inspections', id);
+    res.json({ id });
+  });
+
+  // Corrective Actions
+  // ?overdue=1 limits to unverified actions past their due date, ?assignee=me to the caller's own
+  app.get('/api/corrective-actions', authenticate, authorize('corrective-actions', 'read'), (req: any, res) => {
+    refreshOverdueInspections();
+    const conditions = ['1 = 1'];
+    const params: unknown[] = [];
+    if (req.query.overdue) {
+      conditions.push(`a.status <> 'verified' AND a.due_date < ?`);
+      params.push(today());
+    }
+    if (req.query.assignee === 'me') {
+      conditions.push('a.assignee_id = ?');
+      params.push(req.user.id);
+    }
+    res.json(getCorrectiveActions(conditions.join(' AND '), ...params));
+  });
+  app.get('/api/inspections/:id/actions', authenticate, authorize('corrective-actions', 'read'), (req: any, res) => {
+    res.json(getCorrectiveActions('a.inspection_id = ?', req.params.id));
+  });
+  app.post('/api/inspections/:id/actions', authenticate, authorize('corrective-actions', 'create'), validate(correctiveActionSchema), (req: any, res) => {
+    if (!db.prepare('SELECT id FROM inspections WHERE id = ?').get(req.params.id)) return res.status(404).json({ error: 'Not found' });
+    const { checklist_item_id, description, assignee_id, due_date } = req.body;
+    const item = checklist_item_id
+      ? db.prepare('SELECT id FROM inspection_checklist_items WHERE id = ? AND inspection_id = ?').get(checklist_item_id, req.params.id)
+      : null;
+    if (checklist_item_id && !item) return res.status(400).json({ error: 'Checklist item does not belong to this inspection' });
+    const id = db.transaction(() => {
+      const result = db.prepare('INSERT INTO corrective_actions (inspection_id, checklist_item_id, description, assignee_id, due_date, user_id) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(req.params.id, checklist_item_id ?? null, description, assignee_id ?? null, due_date ?? null, req.user.id);
+      refreshInspectionStatus(req.params.id);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'corrective-actions', id);
+    res.json({ id });
+  });
+
+  // Loads a corrective action for the routes below
+  const loadCorrectiveAction = (req: any, res: any, next: any) => {
+    const action = db.prepare('SELECT * FROM corrective_actions WHERE id = ?').get(req.params.id);
+    if (!action) return res.status(404).json({ error: 'Not found' });
+    req.action = action;
+    next();
+  };
+  const correctiveActionResponse = (id: number) => getCorrectiveActions('a.id = ?', id)[0];
+
+  app.patch('/api/corrective-actions/:id', authenticate, authorize('corrective-actions', 'update'), validate(correctiveActionUpdateSchema), loadCorrectiveAction, (req: any, res) => {
+    if (req.action.status === 'verified') return res.status(409).json({ error: 'Verified actions cannot be edited' });
+    const { description = req.action.description, assignee_id = req.action.assignee_id, due_date = req.action.due_date } = req.body;
+    db.transaction(() => {
+      db.prepare('UPDATE corrective_actions SET description = ?, assignee_id = ?, due_date = ? WHERE id = ?')
+        .run(description, assignee_id, due_date, req.action.id);
+      refreshInspectionStatus(req.action.inspection_id);
+    })();
+    audit(req, 'update', 'corrective-actions', req.action.id, req.action);
+    res.json(correctiveActionResponse(req.action.id));
+  });
+  // The assignee reports the remediation; inspectors and managers may do it on their behalf
+  app.post('/api/corrective-actions/:id/resolve', authenticate, authorize('corrective-actions', 'read'), validate(correctiveActionResolveSchema), loadCorrectiveAction, (req: any, res) => {
+    if (req.action.assignee_id !== req.user.id && !can(req.user.role, 'corrective-actions', 'update')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    if (req.action.status !== 'open') return res.status(409).json({ error: 'Only open actions can be resolved' });
+    db.prepare(`UPDATE corrective_actions SET status = 'resolved', remediation_note = ?, resolved_at = CURRENT_TIMESTAMP WHERE id = ?`)
+      .run(req.body.remediation_note, req.action.id);
+    audit(req, 'update', 'corrective-actions', req.action.id, req.action);
+    res.json(correctiveActionResponse(req.action.id));
+  });
+  // Verification closes the action; a rejection sends it back to the assignee with the inspector's comment
+  app.post('/api/corrective-actions/:id/verify', authenticate, authorize('corrective-actions', 'approve'), validate(correctiveActionVerifySchema), loadCorrectiveAction, (req: any, res) => {
+    if (req.action.status !== 'resolved') return res.status(409).json({ error: 'Only resolved actions can be verified' });
+    const { approved, comment } = req.body;
+    db.transaction(() => {
+      db.prepare('UPDATE corrective_actions SET status = ?, verified_by = ?, verified_at = CURRENT_TIMESTAMP, verification_comment = ? WHERE id = ?')
+        .run(approved ? 'verified' : 'open', req.user.id, comment ?? null, req.action.id);
+      refreshInspectionStatus(req.action.inspection_id);
+    })();
+    audit(req, 'update', 'corrective-actions', req.action.id, req.action);
+    res.json(correctiveActionResponse(req.action.id));
+  });
+  app.delete('/api/corrective-actions/:id', authenticate, authorize('corrective-actions', 'delete'), loadCorrectiveAction, (req: any, res) => {
+    db.transaction(() => {
+      db.prepare('DELETE FROM corrective_actions WHERE id = ?').run(req.action.id);
+      refreshInspectionStatus(req.action.inspection_id);
+    })();
+    audit(req, 'delete', 'corrective-actions', req.action.id, req.action);
+    removeAttachments('corrective-actions', req.action.id);
+    res.json({ success: true });
+  });
+
+  // Checklist Templates
+  app.get('/api/checklist-templates', authenticate, authorize('checklist-templates', 'read'), (req: any, res) => {
+    const rows = db.prepare('SELECT id FROM checklist_templates ORDER BY name').all() as { id: number }[];
+    res.json(rows.map(row => getChecklistTemplate(row.id)));
+  });
+  app.get('/api/checklist-templates/:id', authenticate, authorize('checklist-templates', 'read'), (req: any, res) => {
+    const template = getChecklistTemplate(req.params.id);
+    if (!template) return res.status(404).json({ error: 'Not found' });
+    res.json(template);
+  });
+  app.post('/api/checklist-templates', authenticate, authorize('checklist-templates', 'create'), validate(checklistTemplateSchema), (req: any, res) => {
+    const { name, description, items } = req.body;
+    const id = db.transaction(() => {
+      const result = db.prepare('INSERT INTO checklist_templates (name, description) VALUES (?, ?)').run(name, description ?? null);
+      saveChecklistTemplateItems(result.lastInsertRowid, items ?? []);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'checklist-templates', id);
+    res.json({ id });
+  });
+  app.put('/api/checklist-templates/:id', authenticate, authorize('checklist-templates', 'update'), validate(checklistTemplateSchema), (req: any, res) => {
+    const before = auditSnapshot('checklist-templates', req.params.id);
+    if (!before) return res.status(404).json({ error: 'Not found' });
+    const { name, description, items } = req.body;
+    db.transaction(() => {
+      db.prepare('UPDATE checklist_templates SET name = ?, description = ? WHERE id = ?').run(name, description ?? null, req.params.id);
+      if (items) saveChecklistTemplateItems(req.params.id, items);
+    })();
+    audit(req, 'update', 'checklist-templates', req.params.id, before);
+    res.json(getChecklistTemplate(req.params.id));
+  });
+  app.delete('/api/checklist-templates/:id', authenticate, authorize('checklist-templates', 'delete'), (req: any, res) => {
+    const before = auditSnapshot('checklist-templates', req.params.id);
+    const result = db.prepare('DELETE FROM checklist_templates WHERE id = ?').run(req.params.id);
+    if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+    audit(req, 'delete', 'checklist-templates', req.params.id, before);
+    res.json({ success: true });
+  });
+
+  // Trip Reports
+  app.get('/api/trip-reports', authenticate, authorize('trip-reports', 'read'), listRecords('trip-reports'));
+  app.get('/api/trip-reports/export', authenticate, authorize('trip-reports', 'read'), exportRecords('trip-reports'));
+  app.post('/api/trip-reports', authenticate, authorize('trip-reports', 'create'), validate(tripReportSchema), (req: any, res) => {
+    const { project_id, destination, date_start, date_end, purpose, results, items } = applyProject(req.body);
+    const id = db.transaction(() => {
+      const result = db.prepare(`INSERT INTO trip_reports (user_id, project_id, destination, date_start, date_end, purpose, results, status) VALUES (?, ?, ?, ?, ?, ?, ?, 'draft')`)
+        .run(req.session.userId, project_id, destination, date_start, date_end, purpose, results);
+      saveTripExpenseItems(result.lastInsertRowid, items ?? []);
+      recordTripReportStatus(result.lastInsertRowid, null, 'draft', req.user.id);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'trip-reports', id);
+    res.json({ id });
+  });
+  app.post('/api/trip-reports/:id/transitions', authenticate, authorize('trip-reports', 'read'), validate(transitionSchema), (req: any, res) => {
+    const trip: any = db.prepare('SELECT * FROM trip_reports WHERE id = ?').get(req.params.id);
+    if (!trip) return res.status(404).json({ error: 'Not found' });
+    const { status, comment } = req.body;
+    const transition = TRIP_REPORT_TRANSITIONS.find(t => t.from === trip.status && t.to === status);
+    if (!transition) {
+      return res.status(409).json({ error: `Cannot change status from ${trip.status} to ${status}` });
+    }
+    if (!can(req.user.role, transition.resource, transition.action)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    // Approvers sign off on other people's expenses only; admins are exempt (same rule as estimates)
+    if (transition.to === 'approved' && trip.user_id === req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'You cannot approve your own trip report' });
+    }
+    if (transition.to === 'draft' && !comment) {
+      return res.status(400).json({ error: 'A comment is required when sending a report back' });
+    }
+    const before = auditSnapshot('trip-reports', trip.id);
+    db.transaction(() => {
+      db.prepare(`UPDATE trip_reports SET status = ?, paid_at = ${status === 'paid' ? 'CURRENT_TIMESTAMP' : 'NULL'} WHERE id = ?`).run(status, trip.id);
+      recordTripReportStatus(trip.id, trip.status, status, req.user.id, comment);
+    })();
+    audit(req, 'update', 'trip-reports', trip.id, before);
+    res.json(resources['trip-reports'].expand!(db.prepare('SELECT * FROM trip_reports WHERE id = ?').get(trip.id)));
+  });
+
+  // Reimbursement reports over expense lines dated in ?month=YYYY-MM (default: this month).
+  // ?status= is a comma-separated subset of submitted, approved and paid (default: approved,paid).
+  const expenseReportFilter = (query: any): { error: string } | { month: string; statuses: string[] } => {
+    const month = typeof query.month === 'string' && query.month ? query.month : today().slice(0, 7);
+    if (!/^\d{4}-\d{2}$/.test(month)) return { error: 'Invalid month' };
+    const statuses = typeof query.status === 'string' && query.status ? query.status.split(',') : ['approved', 'paid'];
+    if (statuses.some((status: string) => !['submitted', 'approved', 'paid'].includes(status))) return { error: 'Invalid status' };
+    return { month, statuses };
+  };
+  const expenseLinesIn = (month: string, statuses: string[]) => `
+    FROM trip_expense_items i
+    JOIN trip_reports t ON t.id = i.trip_report_id
+    LEFT JOIN users u ON u.id = t.user_id
+    WHERE SUBSTR(COALESCE(i.date, t.date_start), 1, 7) = ? AND t.status IN (${statuses.map(() => '?').join(', ')})
+  `;
+  app.get('/api/trip-expenses/summary', authenticate, authorize('expense-payments', 'read'), (req: any, res) => {
+    const filter = expenseReportFilter(req.query);
+    if ('error' in filter) return res.status(400).json(filter);
+    const categoryTotals = Object.keys(EXPENSE_CATEGORY_LABELS)
+      .map(category => `COALESCE(SUM(CASE WHEN i.category = '${category}' THEN i.amount END), 0) AS ${category}`).join(', ');
+    const employees = db.prepare(`
+      SELECT t.user_id, u.username, COUNT(DISTINCT t.id) AS reports, ${categoryTotals},
+        COALESCE(SUM(CASE WHEN i.payment_method IS NULL OR i.payment_method <> 'company_card' THEN i.amount END), 0) AS reimbursable,
+        COALESCE(SUM(i.amount), 0) AS total
+      ${expenseLinesIn(filter.month, filter.statuses)}
+      GROUP BY t.user_id ORDER BY u.username
+    `).all(filter.month, ...filter.statuses) as any[];
+    const totals = Object.fromEntries(['reports', ...Object.keys(EXPENSE_CATEGORY_LABELS), 'reimbursable', 'total']
+      .map(key => [key, employees.reduce((sum, row) => sum + row[key], 0)]));
+    res.json({ month: filter.month, statuses: filter.statuses, employees, totals });
+  });
+  app.get('/api/trip-expenses/export', authenticate, authorize('expense-payments', 'read'), (req: any, res) => {
+    const filter = expenseReportFilter(req.query);
+    if ('error' in filter) return res.status(400).json(filter);
+    const lines = db.prepare(`
+      SELECT i.*, t.date_start, t.destination, u.username
+      ${expenseLinesIn(filter.month, filter.statuses)}
+      ORDER BY COALESCE(i.date, t.date_start), u.username, t.id, i.sort_order
+    `).all(filter.month, ...filter.statuses) as any[];
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="trip-expenses-${filter.month}.csv"; filename*=UTF-8''${encodeURIComponent(`出張経費仕訳_${filter.month}.csv`)}`);
+    res.send(expenseJournalCsv(lines));
+  });
+
+  // Estimates
+  const unknownClient = { error: 'Validation failed', fields: { client_id: '選択された顧客が見つかりません' } };
+  app.get('/api/estimates', authenticate, authorize('estimates', 'read'), listRecords('estimates'));
+  app.get('/api/estimates/export', authenticate, authorize('estimates', 'read'), exportRecords('estimates'));
+  app.post('/api/estimates', authenticate, authorize('estimates', 'create'), validate(estimateSchema), (req: any, res) => {
+    const { project_id, client_id, client_name, project_name, details, discount, tax_rate, valid_until, items } = applyClient(applyProject(req.body));
+    if (!client_name) return res.status(400).json(unknownClient);
+    const id = db.transaction(() => {
+      const result = db.prepare(`INSERT INTO estimates (user_id, project_id, client_id, client_name, project_name, details, status, discount, tax_rate, valid_until) VALUES (?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?)`)
+        .run(req.session.userId, project_id, client_id ?? null, client_name, project_name, details, discount ?? 0, tax_rate ?? DEFAULT_TAX_RATE, valid_until ?? null);
+      db.prepare('UPDATE estimates SET estimate_no = ? WHERE id = ?').run(formatEstimateNo(result.lastInsertRowid), result.lastInsertRowid);
+      saveEstimateItems(result.lastInsertRowid, items ?? []);
+      recordEstimateStatus(result.lastInsertRowid, null, 'draft', req.user.id);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'estimates', id);
+    res.json({ id });
+  });
+  // Copies the latest revision into a new draft revision under the same estimate number
+  app.post('/api/estimates/:id/revisions', authenticate, authorize('estimates', 'create'), (req: any, res) => {
+    const source: any = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.id);
+    if (!source) return res.status(404).json({ error: 'Not found' });
+    if (!isLatestRevision(source)) {
+      return res.status(409).json({ error: 'Revisions can only be created from the latest revision' });
+    }
+    if (source.status === 'draft') {
+      return res.status(409).json({ error: 'The latest revision is still a draft; edit it instead' });
+    }
+    const id = db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO estimates (user_id, project_id, client_id, client_name, project_name, details, status, discount, tax_rate, valid_until, estimate_no, revision)
+        VALUES (?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, ?, ?)
+      `).run(req.user.id, source.project_id, source.client_id, source.client_name, source.project_name, source.details, source.discount, source.tax_rate,
+        source.valid_until, source.estimate_no, source.revision + 1);
+      db.prepare(`
+        INSERT INTO estimate_items (estimate_id, sort_order, category, name, spec, quantity, unit, unit_price, subtotal)
+        SELECT ?, sort_order, category, name, spec, quantity, unit, unit_price, subtotal FROM estimate_items WHERE estimate_id = ?
+      `).run(result.lastInsertRowid, source.id);
+      saveEstimateItems(result.lastInsertRowid);
+      recordEstimateStatus(result.lastInsertRowid, null, 'draft', req.user.id, `第${source.revision}版から改訂`);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'estimates', id);
+    res.json({ id });
+  });
+  app.get('/api/estimates/:id/compare/:otherId', authenticate, authorize('estimates', 'read'), (req: any, res) => {
+    const before: any = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.id);
+    const after: any = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.otherId);
+    if (!before || !after) return res.status(404).json({ error: 'Not found' });
+    if (before.estimate_no !== after.estimate_no) {
+      return res.status(400).json({ error: 'Only revisions of the same estimate can be compared' });
+    }
+    res.json({ before: { id: before.id, revision: before.revision }, after: { id: after.id, revision: after.revision }, ...compareEstimates(before, after) });
+  });
+  app.post('/api/estimates/:id/transitions', authenticate, authorize('estimates', 'update'), validate(transitionSchema), (req: any, res) => {
+    const estimate: any = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.id);
+    if (!estimate) return res.status(404).json({ error: 'Not found' });
+    if (!isLatestRevision(estimate)) {
+      return res.status(409).json({ error: 'Earlier revisions are read-only' });
+    }
+    const { status, comment } = req.body;
+    const transition = ESTIMATE_TRANSITIONS.find(t => t.from === estimate.status && t.to === status);
+    if (!transition) {
+      return res.status(409).json({ error: `Cannot change status from ${estimate.status} to ${status}` });
+    }
+    if (!can(req.user.role, 'estimates', transition.action)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    // Same rule as trip reports: approvers sign off on other people's estimates only. Admins are exempt so an
+    // installation with a single admin can still get estimates approved.
+    if (transition.to === 'approved' && estimateSubmitter(estimate.id) === req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'You cannot approve an estimate you submitted' });
+    }
+    const before = auditSnapshot('estimates', estimate.id);
+    db.transaction(() => {
+      db.prepare('UPDATE estimates SET status = ? WHERE id = ?').run(status, estimate.id);
+      recordEstimateStatus(estimate.id, estimate.status, status, req.user.id, comment);
+    })();
+    audit(req, 'update', 'estimates', estimate.id, before);
+    res.json(resources.estimates.expand!(db.prepare('SELECT * FROM estimates WHERE id = ?').get(estimate.id)));
+  });
+  app.get('/api/estimates/:id/pdf', authenticate, authorize('estimates', 'read'), (req: any, res) => {
+    const estimate: any = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.id);
+    if (!estimate) return res.status(404).json({ error: 'Not found' });
+    const number = estimate.revision > 1 ? `${estimate.estimate_no}-${estimate.revision}` : estimate.estimate_no;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${number}.pdf"; filename*=UTF-8''${encodeURIComponent(`御見積書_${number}.pdf`)}`);
+    renderEstimatePdf({
+      ...estimate,
+      number,
+      issue_date: String(estimate.created_at).slice(0, 10),
+      items: getEstimateItems(estimate.id),
+    }, res);
   });
 
   // Minutes
-  app.get('/api/minutes', authenticate, (req: any, res) => {
-    const rows = db.prepare('SELECT * FROM minutes ORDER BY created_at DESC').all();
-    res.json(rows);
+  app.get('/api/minutes', authenticate, authorize('minutes', 'read'), listRecords('minutes'));
+  app.get('/api/minutes/export', authenticate, authorize('minutes', 'read'), exportRecords('minutes'));
+  // participants / tasks take rows; the legacy attendees / action_items text is still accepted
+  app.post('/api/minutes', authenticate, authorize('minutes', 'create'), validate(minuteSchema), (req: any, res) => {
+    const { project_id, title, date, content, participants, attendees, tasks, action_items } = applyProject(req.body);
+    const id = db.transaction(() => {
+      const result = db.prepare('INSERT INTO minutes (user_id, project_id, title, date, content) VALUES (?, ?, ?, ?, ?)')
+        .run(req.session.userId, project_id, title, date, content);
+      saveMinuteAttendees(result.lastInsertRowid, participants ?? attendees ?? []);
+      saveMinuteActionItems(result.lastInsertRowid, tasks ?? action_items ?? []);
+      return result.lastInsertRowid;
+    })();
+    audit(req, 'create', 'minutes', id);
+    res.json({ id });
   });
-  app.post('/api/minutes', authenticate, (req: any, res) => {
-    const { title, date, attendees, content, action_items } = req.body;
-    const result = db.prepare('INSERT INTO minutes (user_id, title, date, attendees, content, action_items) VALUES (?, ?, ?, ?, ?, ?)')
-      .run(req.session.userId, title, date, attendees, content, action_items);
-    res.json({ id: result.lastInsertRowid });
+
+  // Action Items
+  // ?owner=me for the caller's tasks, ?status=open|done (default all), ?overdue=1 for open items past due
+  app.get('/api/action-items', authenticate, authorize('minutes', 'read'), (req: any, res) => {
+    const conditions = ['1 = 1'];
+    const params: unknown[] = [];
+    if (req.query.owner === 'me') {
+      conditions.push('a.owner_id = ?');
+      params.push(req.user.id);
+    }
+    if (req.query.status === 'open' || req.query.status === 'done') {
+      conditions.push('a.done = ?');
+      params.push(req.query.status === 'done' ? 1 : 0);
+    }
+    if (req.query.overdue) {
+      conditions.push('a.done = 0 AND a.due_date < ?');
+      params.push(today());
+    }
+    res.json(getActionItems(conditions.join(' AND '), ...params));
+  });
+  // Owners may tick off their own items; reassigning or rescheduling needs edit rights on the minutes
+  app.patch('/api/action-items/:id', authenticate, authorize('minutes', 'read'), validate(actionItemUpdateSchema), (req: any, res) => {
+    const item: any = db.prepare('SELECT * FROM minute_action_items WHERE id = ?').get(req.params.id);
+    if (!item) return res.status(404).json({ error: 'Not found' });
+    const canEdit = can(req.user.role, 'minutes', 'update');
+    const { done, owner_id, due_date, description } = req.body;
+    if (!canEdit && (item.owner_id !== req.user.id || [owner_id, due_date, description].some(v => v !== undefined))) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    const isDone = done === undefined ? item.done : done ? 1 : 0;
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE minute_action_items SET done = ?, done_at = CASE WHEN ? = 1 THEN COALESCE(done_at, CURRENT_TIMESTAMP) END,
+          owner_id = ?, due_date = ?, description = ?
+        WHERE id = ?
+      `).run(isDone, isDone, owner_id === undefined ? item.owner_id : owner_id,
+        due_date === undefined ? item.due_date : due_date,
+        description ?? item.description, item.id);
+      if (description !== undefined) refreshActionItemSummary(item.minute_id);
+    })();
+    audit(req, 'update', 'action-items', item.id, item);
+    res.json(getActionItems('a.id = ?', item.id)[0]);
+  });
+
+  // Attachments
+  for (const [name, table] of Object.entries(ATTACHABLE)) {
+    app.get(`/api/${name}/:id/attachments`, authenticate, authorize(name, 'read'), (req: any, res) => {
+      const rows = db.prepare('SELECT * FROM attachments WHERE entity_type = ? AND entity_id = ? ORDER BY created_at, id').all(name, req.params.id);
+      res.json(rows);
+    });
+    app.post(`/api/${name}/:id/attachments`, authenticate, authorize(name, 'update'), upload.array('files', 20), asyncHandler(async (req: any, res) => {
+      const files = (req.files ?? []) as Express.Multer.File[];
+      const discard = () => files.forEach(file => removeAttachmentFiles({ filename: file.filename, thumbnail: null }));
+      if (!db.prepare(`SELECT id FROM ${table} WHERE id = ?`).get(req.params.id)) {
+        discard();
+        return res.status(404).json({ error: 'Not found' });
+      }
+      // Multipart fields arrive after multer, so they are checked here rather than by validate()
+      const meta = attachmentMetaSchema.safeParse(req.body ?? {});
+      if (!meta.success) {
+        discard();
+        return res.status(400).json({ error: 'Validation failed', fields: fieldErrors(meta.error) });
+      }
+      if (files.length === 0) return res.status(400).json({ error: 'No files uploaded' });
+      const insert = db.prepare(`
+        INSERT INTO attachments (entity_type, entity_id, filename, original_name, mime_type, size, thumbnail, caption, point, user_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const ids = [];
+      for (const file of files) {
+        const mimeType = storedMimeType(file.mimetype);
+        const thumbnail = await createThumbnail(file.filename, mimeType);
+        const result = insert.run(name, req.params.id, file.filename, file.originalname, mimeType, file.size, thumbnail,
+          meta.data.caption ?? null, meta.data.point ?? null, req.user.id);
+        audit(req, 'create', 'attachments', result.lastInsertRowid);
+        ids.push(result.lastInsertRowid);
+      }
+      res.json({ ids });
+    }));
+  }
+
+  // Loads an attachment and checks the caller's permission on the record it belongs to
+  const attachmentAccess = (action: Action) => (req: any, res: any, next: any) => {
+    const attachment: any = db.prepare('SELECT * FROM attachments WHERE id = ?').get(req.params.id);
+    if (!attachment) return res.status(404).json({ error: 'Not found' });
+    if (!can(req.user.role, attachment.entity_type, action)) return res.status(403).json({ error: 'Forbidden' });
+    req.attachment = attachment;
+    next();
+  };
+  app.get('/api/attachments/:id/file', authenticate, attachmentAccess('read'), (req: any, res) => {
+    const { filename, original_name, mime_type } = req.attachment;
+    // Files stored before uploads were restricted may carry any type; those are downloaded too
+    const inline = isInlineType(mime_type);
+    res.setHeader('Content-Type', inline ? mime_type : 'application/octet-stream');
+    res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(original_name || filename)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.sendFile(path.join(UPLOAD_DIR, filename));
+  });
+  app.get('/api/attachments/:id/thumbnail', authenticate, attachmentAccess('read'), (req: any, res) => {
+    if (!req.attachment.thumbnail) return res.status(404).json({ error: 'No thumbnail' });
+    res.sendFile(path.join(THUMBNAIL_DIR, req.attachment.thumbnail));
+  });
+  app.patch('/api/attachments/:id', authenticate, validate(attachmentMetaSchema), attachmentAccess('update'), (req: any, res) => {
+    const { caption = req.attachment.caption, point = req.attachment.point } = req.body;
+    db.prepare('UPDATE attachments SET caption = ?, point = ? WHERE id = ?').run(caption, point, req.attachment.id);
+    audit(req, 'update', 'attachments', req.attachment.id, req.attachment);
+    res.json(db.prepare('SELECT * FROM attachments WHERE id = ?').get(req.attachment.id));
+  });
+  app.delete('/api/attachments/:id', authenticate, attachmentAccess('update'), (req: any, res) => {
+    removeAttachmentFiles(req.attachment);
+    db.prepare('DELETE FROM attachments WHERE id = ?').run(req.attachment.id);
+    audit(req, 'delete', 'attachments', req.attachment.id, req.attachment);
+    res.json({ success: true });
   });
 
+  // Detail, update and delete for every record type
+  for (const [name, { table, fields, expand = (row: any) => row }] of Object.entries(resources)) {
+    app.get(`/api/${name}/:id`, authenticate, authorize(name, 'read'), (req: any, res) => {
+      const row = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(req.params.id);
+      if (!row) return res.status(404).json({ error: 'Not found' });
+      res.json(expand(row));
+    });
+
+    // PUT replaces every editable field, PATCH only the ones present in the body
+    const update = (partial: boolean) => (req: any, res: any) => {
+      const existing: any = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(req.params.id);
+      if (!existing) return res.status(404).json({ error: 'Not found' });
+      // Versioned records (inspections) refuse an edit based on an older version when the client says which one it read
+      const versioned = 'version' in existing;
+      const basedOn = req.get('If-Match');
+      if (versioned && basedOn && Number(basedOn) !== existing.version) {
+        return res.status(409).json({ error: 'The record was changed by someone else', current: expand(existing) });
+      }
+      let body = applyClient(applyProject(req.body));
+      if (name === 'inspections' && (!partial || 'project_id' in body || 'project_name' in body)) body = linkProjectName(body);
+      if (name === 'projects' && (!partial || 'code' in body)) {
+        // A missing or cleared code keeps the current one; codes stay unique
+        body.code ||= existing.code;
+        if (projectCodeTaken(body.code, existing.id)) return res.status(409).json(duplicateProjectCode);
+      }
+      if (name === 'clients' && 'name' in body) {
+        const duplicate = findClientByName(body.name, existing.id);
+        if (duplicate) return res.status(409).json(duplicateClient(duplicate.name));
+        body.name_key = normalizeClientName(body.name);
+      }
+      if (name === 'trip-reports') {
+        if ('status' in body && body.status !== existing.status) {
+          return res.status(409).json({ error: 'Use POST /api/trip-reports/:id/transitions to change the status' });
+        }
+        // Expenses are frozen once submitted; a report that is sent back becomes editable again
+        if (existing.status !== 'draft') {
+          return res.status(409).json({ error: 'Only draft trip reports can be edited' });
+        }
+      }
+      if (name === 'estimates') {
+        if ('status' in body && body.status !== existing.status) {
+          return res.status(409).json({ error: 'Use POST /api/estimates/:id/transitions to change the status' });
+        }
+        if (!isLatestRevision(existing)) {
+          return res.status(409).json({ error: 'Earlier revisions are read-only' });
+        }
+        // Once submitted for approval the content is frozen
+        if (existing.status !== 'draft') {
+          return res.status(409).json({ error: 'Only draft estimates can be edited' });
+        }
+        if ('client_id' in body && !body.client_name && !(partial && existing.client_name)) return res.status(400).json(unknownClient);
+        // Same defaults as creating; the columns do not take NULL
+        if (!partial || 'discount' in body) body.discount ??= 0;
+        if (!partial || 'tax_rate' in body) body.tax_rate ??= DEFAULT_TAX_RATE;
+      }
+      const before = auditSnapshot(name, existing.id);
+      const columns = partial ? fields.filter(f => f in body) : fields;
+      // Child rows submitted with the record: estimate and expense lines, checklist, meeting participants and tasks, client contacts
+      const children = ['items', 'checklist', 'participants', 'attendees', 'tasks', 'action_items', 'contacts'].filter(key => key in body);
+      if (columns.length === 0 && children.length === 0) return res.status(400).json({ error: 'No fields to update' });
+      db.transaction(() => {
+        if (columns.length > 0) {
+          db.prepare(`UPDATE ${table} SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`)
+            .run(...columns.map(c => body[c] ?? null), req.params.id);
+        }
+        if (name === 'estimates') saveEstimateItems(req.params.id, body.items);
+        if (name === 'trip-reports') saveTripExpenseItems(req.params.id, body.items);
+        if (name === 'inspections') saveInspectionChecklist(req.params.id, body.checklist);
+        if (name === 'clients') saveClientContacts(req.params.id, body.contacts);
+        if (name === 'minutes') {
+          saveMinuteAttendees(req.params.id, body.participants ?? body.attendees);
+          saveMinuteActionItems(req.params.id, body.tasks ?? body.action_items);
+        }
+        if (versioned) db.prepare(`UPDATE ${table} SET version = version + 1 WHERE id = ?`).run(req.params.id);
+      })();
+      audit(req, 'update', name, existing.id, before);
+      res.json(expand(db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(req.params.id)));
+    };
+    app.put(`/api/${name}/:id`, authenticate, authorize(name, 'update'), validate(recordSchemas[name as keyof typeof recordSchemas].put), update(false));
+    app.patch(`/api/${name}/:id`, authenticate, authorize(name, 'update'), validate(recordSchemas[name as keyof typeof recordSchemas].patch), update(true));
+
+    app.delete(`/api/${name}/:id`, authenticate, authorize(name, 'delete'), (req: any, res) => {
+      if (name === 'estimates') {
+        const estimate = db.prepare('SELECT * FROM estimates WHERE id = ?').get(req.params.id);
+        if (estimate && !isLatestRevision(estimate)) {
+          return res.status(409).json({ error: 'Earlier revisions are read-only' });
+        }
+      }
+      // Corrective actions go with their inspection through the foreign key, so collect their photos first
+      const actionIds = name === 'inspections'
+        ? db.prepare('SELECT id FROM corrective_actions WHERE inspection_id = ?').pluck().all(req.params.id) as number[]
+        : [];
+      const before = auditSnapshot(name, req.params.id);
+      const result = db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(req.params.id);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      audit(req, 'delete', name, req.params.id, before);
+      if (name in ATTACHABLE) removeAttachments(name, req.params.id);
+      actionIds.forEach(id => removeAttachments('corrective-actions', id));
+      res.json({ success: true });
+    });
+  }
+
+  // Unknown API paths and uncaught errors answer in the same JSON shape as every other API error
+  app.use('/api', apiNotFound);
+  app.use(apiErrorHandler);
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== 'production') {
     const vite = await createViteServer({
@@ -193,9 +2201,30 @@ async function startServer() {
     });
   }
 
+  // Reminder scheduler. Runs are skipped while the previous one is still sending email.
+  const mailer = createMailTransport();
+  let remindersRunning = false;
+  const runReminders = async () => {
+    if (remindersRunning) return;
+    remindersRunning = true;
+    try {
+      generateNotifications();
+      if (mailer) await emailNotifications(mailer);
+    } catch (error) {
+      console.error('Generating notifications failed:', error);
+    } finally {
+      remindersRunning = false;
+    }
+  };
+  setInterval(runReminders, (Number(process.env.NOTIFICATION_INTERVAL_MINUTES) || 5) * 60000);
+  runReminders();
+
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
 }
 
-startServer();
+// Scripts import this module for the database and its helpers; only running it directly starts the web server
+if (path.resolve(process.argv[1] ?? '') === fileURLToPath(import.meta.url)) {
+  startServer();
+}
@@ -0,0 +1,72 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Language model behind a small interface, so drafting works the same against Gemini and against
+// the local stub used offline and in tests (AI_PROVIDER=stub).
+
+export type AiTask = 'minutes' | 'inspection-summary' | 'estimate-items';
+
+export interface AiRequest {
+  task: AiTask;
+  // Standing instructions
+  system: string;
+  // The user's material (notes, findings, project description)
+  prompt: string;
+  // JSON schema the answer must follow
+  schema: Record<string, unknown>;
+}
+
+export interface AiModel {
+  // Resolves to the parsed JSON answer; checking it against the schema is up to the caller
+  generate(request: AiRequest): Promise<unknown>;
+}
+
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+export const createGeminiModel = (apiKey: string, model = GEMINI_MODEL): AiModel => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async generate({ system, prompt, schema }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { systemInstruction: system, responseMimeType: 'application/json', responseJsonSchema: schema, temperature: 0.2 },
+      });
+      return JSON.parse(response.text ?? '');
+    },
+  };
+};
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.replace(/^\s*(?:[-・*•]|\d+[.)．])\s*/, '').trim()).filter(Boolean);
+
+// Deterministic answers built from the prompt alone: good enough to exercise the drafting flow without a network
+const stubAnswers: Record<AiTask, (request: AiRequest) => unknown> = {
+  minutes: ({ prompt }) => {
+    const [title = '打ち合わせ', ...rest] = lines(prompt);
+    return {
+      title,
+      content: rest.join('\n'),
+      tasks: rest.filter(line => /TODO|宿題|までに|対応|確認する/.test(line)).map(description => ({ description, owner: null, due_date: null })),
+    };
+  },
+  'inspection-summary': ({ prompt }) => ({
+    summary: lines(prompt)[0] ?? '',
+    defects: lines(prompt).slice(1).filter(line => !/[:：]$/.test(line)).map(description => ({ location: null, description, severity: 'medium', action: null })),
+  }),
+  'estimate-items': ({ prompt }) => ({
+    items: [{ category: '諸経費', name: lines(prompt)[0] ?? '工事一式', spec: '', quantity: 1, unit: '式', unit_price: 0 }],
+  }),
+};
+
+// `answers` replaces the heuristics of individual tasks, e.g. with canned model output
+export const createStubModel = (answers: Partial<Record<AiTask, (request: AiRequest) => unknown>> = {}): AiModel => ({
+  async generate(request) {
+    return (answers[request.task] ?? stubAnswers[request.task])(request);
+  },
+});
+
+// Gemini when a key is configured (the .env.example placeholder does not count); null disables drafting
+export const createAiModel = (): AiModel | null => {
+  if (process.env.AI_PROVIDER === 'stub') return createStubModel();
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey && apiKey !== 'MY_GEMINI_API_KEY' ? createGeminiModel(apiKey) : null;
+};
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type { AiModel, AiTask } from './ai.ts';
+import { isDateString } from './listQuery.ts';
+import { ESTIMATE_CATEGORIES, ESTIMATE_UNITS } from '../src/estimate.ts';
+import { CHECKLIST_RESULT_LABELS, type ChecklistItemInput } from '../src/checklist.ts';
+
+// Drafts written by the model from rough input. Nothing is saved: the client puts the draft into the
+// form for the user to check and edit. Model answers are checked like any other untrusted input.
+
+class AiAnswerError extends Error {}
+
+const ask = async <T extends z.ZodType>(model: AiModel, task: AiTask, system: string, prompt: string, schema: T): Promise<z.infer<T>> => {
+  const answer = await model.generate({ task, system, prompt, schema: z.toJSONSchema(schema) as Record<string, unknown> });
+  const result = schema.safeParse(answer);
+  if (!result.success) throw new AiAnswerError(`Unexpected ${task} answer: ${result.error.message}`);
+  return result.data;
+};
+
+const text = z.string().nullable().catch(null);
+
+// Meeting notes -> minutes
+
+const minutesAnswer = z.object({
+  title: z.string(),
+  content: z.string(),
+  tasks: z.array(z.object({
+    description: z.string(),
+    // Username of the owner when the notes name one
+    owner: text,
+    due_date: text,
+  })),
+});
+
+export const draftMinutes = async (model: AiModel, { notes, date }: { notes: string; date?: string | null }, users: { id: number; username: string }[]) => {
+  const system = [
+    'あなたは建設会社の打ち合わせ議事録を作成するアシスタントです。',
+    '入力は会議中の走り書きのメモです。内容を補ったり推測したりせず、メモに書かれていることだけを使ってください。',
+    'title: 会議の件名を短く。content: 決定事項・協議事項を箇条書きで整理した本文。',
+    'tasks: 誰かが今後行う作業（宿題）を1件ずつ。担当者が社内メンバーの誰かと分かる場合だけ owner にそのユーザー名を入れてください。',
+    `期限は YYYY-MM-DD で。「来週金曜」などの相対的な表現は開催日（${date ?? '不明'}）を基準に日付にしてください。分からなければ null。`,
+    `社内メンバーのユーザー名: ${users.map(u => u.username).join(', ') || 'なし'}`,
+  ].join('\n');
+  const answer = await ask(model, 'minutes', system, notes, minutesAnswer);
+  const userId = (name: string | null) => name ? users.find(u => u.username.toLowerCase() === name.trim().toLowerCase())?.id ?? null : null;
+  return {
+    title: answer.title.trim(),
+    content: answer.content.trim(),
+    tasks: answer.tasks
+      .filter(task => task.description.trim())
+      .map(task => ({ description: task.description.trim(), owner_id: userId(task.owner), due_date: isDateString(task.due_date) ? task.due_date : null, done: 0 })),
+  };
+};
+
+// Inspection findings -> defect report
+
+const DEFECT_SEVERITY_LABELS = { high: '重大', medium: '要是正', low: '軽微' } as const;
+
+const inspectionAnswer = z.object({
+  summary: z.string(),
+  defects: z.array(z.object({
+    location: text,
+    description: z.string(),
+    severity: z.enum(['high', 'medium', 'low']).catch('medium'),
+    // Suggested remedy
+    action: text,
+  })),
+});
+
+export const summarizeFindings = async (model: AiModel, { findings, location, project_name, checklist = [] }: {
+  findings?: string | null;
+  location?: string | null;
+  project_name?: string | null;
+  checklist?: Partial<ChecklistItemInput>[];
+}) => {
+  const system = [
+    'あなたは建設現場の品質・安全点検の報告書を作成するアシスタントです。',
+    '点検者の所見メモと不適合のチェック項目から、不具合報告を作成してください。入力にない不具合を作らないでください。',
+    'summary: 点検結果の要約を2〜3文で。defects: 不具合1件ごとに場所・内容・重大度（high: 安全や構造に関わる / medium: 是正が必要 / low: 軽微）・是正案。',
+    `現場: ${[project_name, location].filter(Boolean).join(' ') || '不明'}`,
+  ].join('\n');
+  const failed = checklist
+    .filter(row => row.result === 'ng')
+    .map(row => `- [${CHECKLIST_RESULT_LABELS.ng}] ${[row.section, row.label].filter(Boolean).join(' / ')}${row.comment ? `：${row.comment}` : ''}`);
+  const prompt = [findings?.trim(), failed.length ? `不適合のチェック項目:\n${failed.join('\n')}` : ''].filter(Boolean).join('\n\n');
+  const answer = await ask(model, 'inspection-summary', system, prompt, inspectionAnswer);
+  const defects = answer.defects.filter(defect => defect.description.trim());
+  // The report replaces the findings text, so it is plain text in the order inspectors write it
+  const report = [
+    '【所見要約】',
+    answer.summary.trim(),
+    ...(defects.length ? ['', '【不具合一覧】'] : []),
+    ...defects.map((defect, index) => [
+      `${index + 1}. [${DEFECT_SEVERITY_LABELS[defect.severity]}] ${defect.location ? `${defect.location}：` : ''}${defect.description.trim()}`,
+      ...(defect.action ? [`   是正案：${defect.action.trim()}`] : []),
+    ].join('\n')),
+  ].join('\n');
+  return { summary: answer.summary.trim(), defects, report };
+};
+
+// Project description -> estimate lines
+
+const estimateAnswer = z.object({
+  items: z.array(z.object({
+    category: z.string().catch(''),
+    name: z.string(),
+    spec: z.string().catch(''),
+    quantity: z.number().catch(1),
+    unit: z.string().catch('式'),
+    unit_price: z.number().catch(0),
+  })),
+});
+
+export const suggestEstimateItems = async (model: AiModel, { description, project_name }: { description: string; project_name?: string | null }) => {
+  const system = [
+    'あなたは建設会社の積算担当者のアシスタントです。工事の概要から見積書の内訳明細の案を作成してください。',
+    `category は次から選んでください: ${ESTIMATE_CATEGORIES.join('、')}。unit は次から選んでください: ${ESTIMATE_UNITS.join('、')}。`,
+    'unit_price は税抜の円単位の概算で構いません。数量が読み取れない項目は 1 式としてください。',
+    ...(project_name ? [`工事名: ${project_name}`] : []),
+  ].join('\n');
+  const answer = await ask(model, 'estimate-items', system, description, estimateAnswer);
+  return {
+    items: answer.items
+      .filter(item => item.name.trim())
+      .map(item => ({
+        category: item.category.trim(),
+        name: item.name.trim(),
+        spec: item.spec.trim(),
+        quantity: Math.max(item.quantity, 0),
+        unit: item.unit.trim() || '式',
+        unit_price: Math.max(Math.round(item.unit_price), 0),
+      })),
+  };
+};
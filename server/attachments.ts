@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import sharp from 'sharp';
+
+// Uploaded files live on local disk; only their metadata goes into the attachments table
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+export const THUMBNAIL_DIR = path.join(UPLOAD_DIR, 'thumbnails');
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const THUMBNAIL_WIDTH = 480;
+
+fs.mkdirSync(THUMBNAIL_DIR, { recursive: true });
+
+export const upload = multer({
+  storage: multer.diskStorage({
+    destination: UPLOAD_DIR,
+    filename: (req, file, cb) => cb(null, `${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`),
+  }),
+  limits: { fileSize: MAX_FILE_SIZE },
+  // Browsers send Japanese file names as UTF-8
+  defParamCharset: 'utf8',
+});
+
+// Types a browser may display. SVG and HTML can run scripts on the app's origin, so they and every other type
+// are stored as application/octet-stream and only ever downloaded.
+const INLINE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+
+export const storedMimeType = (mimeType: string) => INLINE_TYPES.includes(mimeType) ? mimeType : 'application/octet-stream';
+
+export const isInlineType = (mimeType: string | null) => INLINE_TYPES.includes(mimeType ?? '');
+
+// Returns the thumbnail file name, or null for files that are not images sharp can read
+export async function createThumbnail(filename: string, mimeType: string): Promise<string | null> {
+  if (!mimeType.startsWith('image/')) return null;
+  const thumbnail = `${path.parse(filename).name}.jpg`;
+  try {
+    await sharp(path.join(UPLOAD_DIR, filename))
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toFile(path.join(THUMBNAIL_DIR, thumbnail));
+    return thumbnail;
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+}
+
+export function removeAttachmentFiles(attachment: { filename: string; thumbnail: string | null }) {
+  fs.rmSync(path.join(UPLOAD_DIR, attachment.filename), { force: true });
+  if (attachment.thumbnail) fs.rmSync(path.join(THUMBNAIL_DIR, attachment.thumbnail), { force: true });
+}
@@ -0,0 +1,49 @@
+// Templates seeded into an empty database. Items marked critical make an inspection urgent when they fail.
+
+export interface TemplateSeed {
+  name: string;
+  description: string;
+  items: { section: string; label: string; critical?: boolean }[];
+}
+
+export const DEFAULT_TEMPLATES: TemplateSeed[] = [
+  {
+    name: '配筋検査',
+    description: 'コンクリート打設前の鉄筋・型枠の確認',
+    items: [
+      { section: '鉄筋材料', label: '鉄筋の種類・径が設計図書どおりである', critical: true },
+      { section: '鉄筋材料', label: 'ミルシートと現物の照合' },
+      { section: '配筋', label: '主筋・あばら筋・帯筋の本数と間隔', critical: true },
+      { section: '配筋', label: '定着長さ・継手長さ', critical: true },
+      { section: '配筋', label: 'スペーサー・バーサポートの配置' },
+      { section: 'かぶり厚さ', label: '所定のかぶり厚さが確保されている', critical: true },
+      { section: 'かぶり厚さ', label: '開口部補強筋の配置' },
+    ],
+  },
+  {
+    name: '防水検査',
+    description: '屋上・バルコニー等の防水工事の確認',
+    items: [
+      { section: '下地', label: '下地の乾燥・清掃状態' },
+      { section: '下地', label: '勾配が確保され水たまりがない' },
+      { section: '施工', label: '防水層の膜厚・重ね幅', critical: true },
+      { section: '施工', label: '立上り・端部の納まり', critical: true },
+      { section: '施工', label: 'ドレン・貫通部廻りの処理', critical: true },
+      { section: '試験', label: '散水試験・水張り試験で漏水がない', critical: true },
+    ],
+  },
+  {
+    name: '足場点検',
+    description: '作業開始前・悪天候後の足場の点検',
+    items: [
+      { section: '構造', label: '建地・布・腕木の緊結部に緩みがない', critical: true },
+      { section: '構造', label: '壁つなぎの間隔・取付け状態', critical: true },
+      { section: '構造', label: '根がらみ・敷板の設置' },
+      { section: '作業床', label: '手すり・中さん・幅木の設置', critical: true },
+      { section: '作業床', label: '作業床の隙間が3cm以下' },
+      { section: '昇降設備', label: '昇降設備の設置と固定' },
+      { section: 'その他', label: '落下物防止ネット・養生シートの状態' },
+      { section: 'その他', label: '最大積載荷重の表示' },
+    ],
+  },
+];
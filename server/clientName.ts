@@ -0,0 +1,14 @@
+// Client names are typed in many forms: "株式会社山田建設", "山田建設(株)", "㈱山田建設 ".
+// The key drops the legal form, widths and spacing so that these count as one client.
+
+const LEGAL_FORMS = [
+  '株式会社', '有限会社', '合同会社', '合資会社', '合名会社', '一般社団法人', '一般財団法人',
+  '(株)', '(有)', '(同)', '(資)', '(名)', '(社)', '(財)',
+];
+
+export const normalizeClientName = (name: string) => {
+  // NFKC turns ㈱ into (株) and full-width letters, digits and brackets into ASCII
+  let key = name.normalize('NFKC').replace(/[\s・.,、。]/g, '').toLowerCase();
+  for (const form of LEGAL_FORMS) key = key.split(form).join('');
+  return key;
+};
@@ -0,0 +1,14 @@
+// CSV output for spreadsheet and accounting imports: UTF-8 with BOM (so Excel detects the encoding) and CRLF line endings
+
+// Text Excel would evaluate as a formula when the file is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown, escapeFormulas: boolean) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (escapeFormulas && typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// `escapeFormulas` neutralizes user-entered text in files meant to be opened in Excel; imports want the raw values
+export const toCsv = (header: string[], rows: unknown[][], { escapeFormulas = false } = {}) =>
+  '\uFEFF' + [header, ...rows].map(row => row.map(value => csvCell(value, escapeFormulas)).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,159 @@
+// Parsing, column mapping and validation of bulk CSV imports. Inserting the rows is up to the caller.
+
+export type ImportFieldType = 'text' | 'date' | 'amount' | 'rate' | 'enum';
+
+export interface ImportField {
+  field: string;
+  // Header used by the exports, so an exported file can be imported again
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  // Allowed codes with their labels; either may appear in the file
+  values?: Record<string, string>;
+  // Other headers commonly used for this column in existing spreadsheets
+  aliases?: string[];
+}
+
+export interface ImportError {
+  field: string | null;
+  message: string;
+}
+
+export interface ImportRow {
+  // Row number in the file, counting the header as row 1 (blank lines are skipped)
+  line: number;
+  values: Record<string, string | number | null>;
+  errors: ImportError[];
+}
+
+// CSV header -> field name; unmapped headers are ignored
+export type ImportMapping = Record<string, string | null>;
+
+// Files saved by Excel in Japan are often Shift_JIS; anything that is not valid UTF-8 is read as such
+export function decodeCsv(bytes: Uint8Array) {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks. A leading BOM and blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_（）()]/g, '');
+
+// Matches each header against field names, export labels and aliases
+export function autoMapping(headers: string[], fields: ImportField[]): ImportMapping {
+  const used = new Set<string>();
+  return Object.fromEntries(headers.map(header => {
+    const key = normalizeHeader(header);
+    const match = fields.find(f => !used.has(f.field) && [f.field, f.label, ...(f.aliases ?? [])].some(name => normalizeHeader(name) === key));
+    if (match) used.add(match.field);
+    return [header, match?.field ?? null];
+  }));
+}
+
+// Accepts 2024-04-01, 2024/4/1 and 2024.4.1; returns YYYY-MM-DD or null when not a real date
+export function parseDate(value: string) {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Whole yen; currency signs, thousands separators and a trailing 円 are allowed
+export function parseAmount(value: string) {
+  const text = value.trim().replace(/^[¥￥]/, '').replace(/円$/, '').replace(/[,，]/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Math.round(Number(text));
+}
+
+// A percentage: 10%, 10 and 0.1 all mean ten percent
+export function parseRate(value: string) {
+  const text = value.trim().replace(/[%％]$/, '');
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const rate = Number(text);
+  return value.trim().match(/[%％]$/) || rate > 1 ? rate / 100 : rate;
+}
+
+const convert = (field: ImportField, raw: string): { value: string | number | null; error?: string } => {
+  const text = raw.trim();
+  if (text === '') return field.required ? { value: null, error: `${field.label} is required` } : { value: null };
+  switch (field.type) {
+    case 'date': {
+      const date = parseDate(text);
+      return date ? { value: date } : { value: null, error: `${field.label} is not a valid date: ${text}` };
+    }
+    case 'amount': {
+      const amount = parseAmount(text);
+      if (amount === null) return { value: null, error: `${field.label} is not a number: ${text}` };
+      return amount < 0 ? { value: null, error: `${field.label} must not be negative` } : { value: amount };
+    }
+    case 'rate': {
+      const rate = parseRate(text);
+      return rate !== null && rate <= 1 ? { value: rate } : { value: null, error: `${field.label} is not a valid rate: ${text}` };
+    }
+    case 'enum': {
+      const code = Object.entries(field.values ?? {}).find(([code, label]) => code === text || label === text)?.[0];
+      return code ? { value: code } : { value: null, error: `${field.label} must be one of ${Object.values(field.values ?? {}).join(', ')}` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+// Converts every data row with the mapping. Required fields that are not mapped at all are reported once per row.
+export function validateRows(rows: string[][], mapping: ImportMapping, fields: ImportField[]): ImportRow[] {
+  const [headers, ...data] = rows;
+  const columns = fields.map(field => ({ field, index: headers.findIndex(header => mapping[header] === field.field) }));
+  return data.map((cells, i) => {
+    const values: ImportRow['values'] = {};
+    const errors: ImportError[] = [];
+    for (const { field, index } of columns) {
+      const { value, error } = convert(field, index >= 0 ? cells[index] ?? '' : '');
+      values[field.field] = value;
+      if (error) errors.push({ field: field.field, message: error });
+    }
+    return { line: i + 2, values, errors };
+  });
+}
@@ -0,0 +1,161 @@
+import PDFDocument from 'pdfkit';
+import { createRequire } from 'module';
+import type { Writable } from 'stream';
+
+const require = createRequire(import.meta.url);
+
+// Noto Sans JP ships with the app as an npm dependency, so rendering never needs network access
+const FONTS = {
+  regular: process.env.PDF_FONT_REGULAR || require.resolve('@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf'),
+  bold: process.env.PDF_FONT_BOLD || require.resolve('@expo-google-fonts/noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf'),
+};
+
+export interface CompanyInfo {
+  name: string;
+  address: string;
+  tel: string;
+}
+
+export const companyInfo = (): CompanyInfo => ({
+  name: process.env.COMPANY_NAME || '建設管理 Pro 株式会社',
+  address: process.env.COMPANY_ADDRESS || '',
+  tel: process.env.COMPANY_TEL || '',
+});
+
+export interface EstimatePdfData {
+  number: string;
+  issue_date: string;
+  valid_until: string | null;
+  // Legacy estimates may have none
+  client_name: string | null;
+  project_name: string | null;
+  details: string | null;
+  subtotal: number;
+  discount: number;
+  tax_rate: number;
+  tax: number;
+  amount: number;
+  items: { name: string; spec: string | null; quantity: number; unit: string | null; unit_price: number; subtotal: number }[];
+}
+
+const yen = (value: number) => `¥${Math.round(value).toLocaleString('ja-JP')}`;
+
+const PAGE = { width: 595.28, height: 841.89, margin: 40 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+
+// Column layout of the breakdown table: [label, width, align]
+const COLUMNS: [string, number, 'left' | 'right' | 'center'][] = [
+  ['No.', 30, 'center'],
+  ['品名・仕様', 215, 'left'],
+  ['数量', 55, 'right'],
+  ['単位', 40, 'center'],
+  ['単価', 85, 'right'],
+  ['金額', CONTENT_WIDTH - 425, 'right'],
+];
+const ROW_HEIGHT = 22;
+
+// Renders a 御見積書 (A4 portrait) into the given stream
+export function renderEstimatePdf(estimate: EstimatePdfData, out: Writable) {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE.margin, info: { Title: `御見積書 ${estimate.number}` } });
+  doc.registerFont('jp', FONTS.regular);
+  doc.registerFont('jp-bold', FONTS.bold);
+  doc.pipe(out);
+
+  const left = PAGE.margin;
+  const right = PAGE.width - PAGE.margin;
+  const company = companyInfo();
+
+  // Title and document meta
+  doc.font('jp-bold').fontSize(24).text('御 見 積 書', left, 48, { width: CONTENT_WIDTH, align: 'center', characterSpacing: 4 });
+  doc.font('jp').fontSize(9)
+    .text(`見積番号: ${estimate.number}`, left, 50, { width: CONTENT_WIDTH, align: 'right' })
+    .text(`発行日: ${estimate.issue_date}`, { width: CONTENT_WIDTH, align: 'right' });
+
+  // Addressee; left blank to be filled in by hand when the estimate has no client name
+  doc.font('jp-bold').fontSize(16).text(estimate.client_name ? `${estimate.client_name}　御中` : '', left, 110, { width: 300 });
+  doc.moveTo(left, 134).lineTo(left + 300, 134).lineWidth(1).stroke();
+  doc.font('jp').fontSize(10)
+    .text(`件名: ${estimate.project_name || ''}`, left, 146, { width: 300 })
+    .text(`有効期限: ${estimate.valid_until || '発行日より30日間'}`, { width: 300 })
+    .moveDown(0.8)
+    .text('下記の通り御見積申し上げます。', { width: 300 });
+
+  // Total box
+  doc.rect(left, 214, 300, 40).lineWidth(1.5).stroke();
+  doc.font('jp').fontSize(10).text('御見積金額', left + 10, 229);
+  doc.font('jp-bold').fontSize(18).text(`${yen(estimate.amount)}-`, left + 80, 224, { width: 160, align: 'right' });
+  doc.font('jp').fontSize(8).text('（税込）', left + 245, 232);
+
+  // Company header and seal area
+  const companyX = 360;
+  doc.font('jp-bold').fontSize(12).text(company.name, companyX, 110, { width: right - companyX });
+  doc.font('jp').fontSize(9);
+  if (company.address) doc.text(company.address, { width: right - companyX });
+  if (company.tel) doc.text(`TEL: ${company.tel}`, { width: right - companyX });
+
+  const sealSize = 52;
+  ['承認', '確認', '担当'].forEach((label, i) => {
+    const x = right - sealSize * (3 - i);
+    doc.rect(x, 186, sealSize, 14).lineWidth(0.5).stroke();
+    doc.rect(x, 200, sealSize, sealSize).stroke();
+    doc.fontSize(8).text(label, x, 189, { width: sealSize, align: 'center' });
+  });
+
+  // Breakdown table
+  let y = 280;
+  const drawHeader = () => {
+    doc.rect(left, y, CONTENT_WIDTH, ROW_HEIGHT).fillAndStroke('#f4f4f5', '#a1a1aa');
+    doc.fillColor('#18181b').font('jp-bold').fontSize(9);
+    let x = left;
+    for (const [label, width] of COLUMNS) {
+      doc.text(label, x, y + 6, { width, align: 'center' });
+      x += width;
+    }
+    y += ROW_HEIGHT;
+    doc.font('jp');
+  };
+  const drawRow = (cells: string[], bold = false) => {
+    if (y + ROW_HEIGHT > PAGE.height - PAGE.margin - 40) {
+      doc.addPage();
+      y = PAGE.margin;
+      drawHeader();
+    }
+    doc.rect(left, y, CONTENT_WIDTH, ROW_HEIGHT).lineWidth(0.5).stroke('#a1a1aa');
+    doc.fillColor('#18181b').font(bold ? 'jp-bold' : 'jp').fontSize(9);
+    let x = left;
+    COLUMNS.forEach(([, width, align], i) => {
+      doc.text(cells[i] ?? '', x + 4, y + 6, { width: width - 8, align, lineBreak: false, ellipsis: true });
+      x += width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  drawHeader();
+  estimate.items.forEach((item, i) => {
+    drawRow([
+      String(i + 1),
+      item.spec ? `${item.name}　${item.spec}` : item.name,
+      item.quantity.toLocaleString('ja-JP'),
+      item.unit ?? '',
+      yen(item.unit_price),
+      yen(item.subtotal),
+    ]);
+  });
+
+  drawRow(['', '小計', '', '', '', yen(estimate.subtotal)]);
+  if (estimate.discount > 0) drawRow(['', '値引き', '', '', '', `-${yen(estimate.discount)}`]);
+  drawRow(['', `消費税（${Math.round(estimate.tax_rate * 1000) / 10}%）`, '', '', '', yen(estimate.tax)]);
+  drawRow(['', '合計', '', '', '', yen(estimate.amount)], true);
+
+  // Notes
+  if (estimate.details) {
+    if (y + 80 > PAGE.height - PAGE.margin) {
+      doc.addPage();
+      y = PAGE.margin;
+    }
+    doc.font('jp-bold').fontSize(10).text('備考', left, y + 16);
+    doc.font('jp').fontSize(9).text(estimate.details, left, y + 32, { width: CONTENT_WIDTH });
+  }
+
+  doc.end();
+}
@@ -0,0 +1,57 @@
+// Journal entries (仕訳) for reimbursed trip expenses, in the column layout our accounting software imports
+import {
+  EXPENSE_CATEGORY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  type ExpenseCategory,
+  type PaymentMethod
+} from '../src/tripExpense.ts';
+import { toCsv } from './csv.ts';
+
+// Debit account per expense category
+const EXPENSE_ACCOUNTS: Record<ExpenseCategory, string> = {
+  transport: '旅費交通費',
+  lodging: '旅費交通費',
+  per_diem: '旅費交通費',
+  other: '雑費',
+};
+
+const PAYABLE_ACCOUNT = '未払金';
+
+export interface ExpenseJournalLine {
+  trip_report_id: number;
+  date: string | null;
+  date_start: string | null;
+  category: ExpenseCategory;
+  description: string | null;
+  amount: number;
+  payment_method: PaymentMethod | null;
+  destination: string | null;
+  username: string | null;
+}
+
+const JOURNAL_HEADER = [
+  '伝票日付', '借方勘定科目', '借方補助科目', '借方金額', '貸方勘定科目', '貸方補助科目', '貸方金額', '摘要', '社員', '支払方法', '出張報告番号',
+];
+
+// One entry per expense line. Amounts the employee paid are owed to them; company card charges to the card issuer.
+export function expenseJournalCsv(lines: ExpenseJournalLine[]) {
+  return toCsv(JOURNAL_HEADER, lines.map(line => {
+    const date = (line.date || line.date_start || '').replace(/-/g, '/');
+    const creditSub = line.payment_method === 'company_card' ? '法人カード' : line.username ?? '';
+    const memo = [EXPENSE_CATEGORY_LABELS[line.category], line.description, line.destination && `（${line.destination}出張）`]
+      .filter(Boolean).join(' ');
+    return [
+      date,
+      EXPENSE_ACCOUNTS[line.category] ?? EXPENSE_ACCOUNTS.other,
+      EXPENSE_CATEGORY_LABELS[line.category] ?? '',
+      line.amount,
+      PAYABLE_ACCOUNT,
+      creditSub,
+      line.amount,
+      memo,
+      line.username ?? '',
+      line.payment_method ? PAYMENT_METHOD_LABELS[line.payment_method] : '',
+      `T-${String(line.trip_report_id).padStart(6, '0')}`,
+    ];
+  }));
+}
@@ -0,0 +1,61 @@
+// iCalendar (RFC 5545) text for the schedule feed that Outlook and Google Calendar subscribe to.
+// Records carry dates without times, so every event is an all-day event.
+
+export interface IcsEvent {
+  // Stable across feed refreshes, so calendars update events instead of duplicating them
+  uid: string;
+  // First and last day, inclusive
+  start: string;
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const dateValue = (date: string) => date.replace(/-/g, '');
+// DTEND of an all-day event is the day after the last one
+const dayAfter = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
+
+export const buildIcs = (name: string, events: IcsEvent[], now = new Date()) => {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//construction-app//schedule//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(event.start)}`,
+      `DTEND;VALUE=DATE:${dateValue(dayAfter(event.end))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
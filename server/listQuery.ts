@@ -0,0 +1,116 @@
+// Filtering, keyword search, sorting and cursor pagination shared by the record list routes
+
+export interface ListSpec {
+  // FROM clause; `alias` qualifies every column so specs can join or self-reference
+  from: string;
+  alias: string;
+  // FTS5 table (trigram tokenizer) over `searchColumns`, kept in sync by triggers
+  fts: string;
+  searchColumns: string[];
+  dateColumn: string;
+  statusColumn?: string;
+  // Sort key accepted in ?sort= mapped to a non-null SQL expression
+  sortable: Record<string, string>;
+  defaultSort: string;
+  // Condition applied to every query, e.g. only the latest estimate revision
+  where?: string;
+  // Computed columns added to each row, e.g. counts of child records
+  columns?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const encodeCursor = (value: unknown[]) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeCursor = (cursor: string): [unknown, number] | null => {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Array.isArray(value) && value.length === 2 && Number.isInteger(value[1]) ? value as [unknown, number] : null;
+  } catch {
+    return null;
+  }
+};
+
+// Trigram matching needs at least three characters; shorter terms (common in Japanese) fall back to LIKE
+const keywordCondition = (spec: ListSpec, term: string): [string, unknown[]] => {
+  if ([...term].length >= 3) {
+    return [`${spec.alias}.id IN (SELECT rowid FROM ${spec.fts} WHERE ${spec.fts} MATCH ?)`, [`"${term.replace(/"/g, '""')}"`]];
+  }
+  const pattern = `%${term.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+  return [
+    `(${spec.searchColumns.map(c => `${spec.alias}.${c} LIKE ? ESCAPE '\\'`).join(' OR ')})`,
+    spec.searchColumns.map(() => pattern),
+  ];
+};
+
+// Builds the list query from request parameters:
+// q, status, from, to, project_id, author (user id or "me"), sort, order (asc|desc), cursor, limit.
+// Exports pass `paginate: false` to get every matching row.
+export function buildListQuery(spec: ListSpec, query: Record<string, unknown>, userId: number, { paginate = true } = {}):
+  { error: string } | { sql: string; params: unknown[]; limit: number } {
+  const conditions = spec.where ? [spec.where] : [];
+  const params: unknown[] = [];
+  const str = (key: string) => typeof query[key] === 'string' ? (query[key] as string).trim() : '';
+
+  for (const term of str('q').split(/\s+/).filter(Boolean)) {
+    const [condition, values] = keywordCondition(spec, term);
+    conditions.push(condition);
+    params.push(...values);
+  }
+
+  if (str('status')) {
+    if (!spec.statusColumn) return { error: 'This list cannot be filtered by status' };
+    conditions.push(`${spec.alias}.${spec.statusColumn} = ?`);
+    params.push(str('status'));
+  }
+
+  for (const [key, operator] of [['from', '>='], ['to', '<=']]) {
+    if (!str(key)) continue;
+    if (!isDateString(str(key))) return { error: 'Invalid date range' };
+    conditions.push(`${spec.dateColumn} ${operator} ?`);
+    params.push(str(key));
+  }
+
+  if (str('project_id')) {
+    conditions.push(`${spec.alias}.project_id = ?`);
+    params.push(Number(str('project_id')) || 0);
+  }
+  if (str('author')) {
+    conditions.push(`${spec.alias}.user_id = ?`);
+    params.push(str('author') === 'me' ? userId : Number(str('author')) || 0);
+  }
+
+  const sortKey = str('sort') || spec.defaultSort;
+  const sort = spec.sortable[sortKey];
+  if (!sort) return { error: `Cannot sort by ${sortKey}` };
+  const order = str('order') === 'asc' ? 'ASC' : 'DESC';
+
+  // Keyset pagination on (sort value, id) stays stable while records are added
+  if (paginate && str('cursor')) {
+    const cursor = decodeCursor(str('cursor'));
+    if (!cursor) return { error: 'Invalid cursor' };
+    const comparison = order === 'ASC' ? '>' : '<';
+    conditions.push(`(${sort} ${comparison} ? OR (${sort} = ? AND ${spec.alias}.id ${comparison} ?))`);
+    params.push(cursor[0], cursor[0], cursor[1]);
+  }
+
+  const limit = Math.min(Math.max(Math.floor(Number(str('limit'))) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const sql = `
+    SELECT ${spec.alias}.*, ${spec.columns ? `${spec.columns}, ` : ''}${sort} AS _sort_value FROM ${spec.from}
+    WHERE ${conditions.join(' AND ') || '1 = 1'}
+    ORDER BY ${sort} ${order}, ${spec.alias}.id ${order}
+    ${paginate ? `LIMIT ${limit + 1}` : ''}
+  `;
+  return { sql, params, limit };
+}
+
+// Trims the look-ahead row fetched by buildListQuery and turns it into the next cursor
+export function toPage<T extends { id: number; _sort_value?: unknown }>(rows: T[], limit: number) {
+  const items = rows.slice(0, limit).map(({ _sort_value, ...row }) => row);
+  const last = rows.length > limit ? rows[limit - 1] : null;
+  return { items, next_cursor: last ? encodeCursor([last._sort_value, last.id]) : null };
+}
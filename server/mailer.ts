@@ -0,0 +1,53 @@
+import nodemailer from 'nodemailer';
+
+// Outgoing mail behind a small interface, so notifications are sent the same way through SMTP, a log for
+// development, or not at all. SMTP_HOST can point at a local mail catcher (e.g. Mailpit on port 1025) for testing.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'construction-app@localhost';
+
+export const createSmtpTransport = (options: { host: string; port: number; secure: boolean; user?: string; pass?: string }, from = MAIL_FROM): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+  });
+  return {
+    async send({ to, subject, text }) {
+      await transporter.sendMail({ from, to, subject, text });
+    },
+  };
+};
+
+// Writes messages to the server log instead of sending them
+export const createLogTransport = (): MailTransport => ({
+  async send({ to, subject }) {
+    console.log(`Mail to ${to}: ${subject}`);
+  },
+});
+
+// SMTP when SMTP_HOST is set, the log with MAIL_TRANSPORT=log; null turns email off
+export const createMailTransport = (): MailTransport | null => {
+  if (process.env.MAIL_TRANSPORT === 'log') return createLogTransport();
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return createSmtpTransport({
+    host,
+    port,
+    // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  });
+};
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { MIGRATIONS } from './migrations/index.ts';
+
+// Versioned schema changes. Each migration runs once, in its own transaction together with its
+// schema_migrations row, so a failing migration leaves the database as it was.
+
+export const DATABASE_FILE = 'construction.db';
+export const BACKUP_DIR = 'backups';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+const ensureMigrationsTable = (db: Database.Database) => db.exec(`
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+const appliedMigrations = (db: Database.Database) => {
+  ensureMigrationsTable(db);
+  const rows = db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: string }[];
+  return new Map(rows.map(row => [row.version, row.applied_at]));
+};
+
+export const pendingMigrations = (db: Database.Database, migrations = MIGRATIONS) => {
+  const applied = appliedMigrations(db);
+  const known = new Set(migrations.map(m => m.version));
+  // Started with an older build after a newer one upgraded the database
+  const unknown = [...applied.keys()].filter(version => !known.has(version));
+  if (unknown.length) {
+    throw new Error(`Database has migrations this build does not know (${unknown.join(', ')}); update the app instead of downgrading`);
+  }
+  return migrations.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+};
+
+export const migrationStatus = (db: Database.Database, migrations = MIGRATIONS): MigrationStatus[] => {
+  const applied = appliedMigrations(db);
+  return migrations.map(m => ({ version: m.version, name: m.name, applied_at: applied.get(m.version) ?? null }));
+};
+
+// Applies the pending migrations and returns them
+export const migrate = (db: Database.Database, migrations = MIGRATIONS) => {
+  const pending = pendingMigrations(db, migrations);
+  if (!pending.length) return pending;
+
+  // Rebuilding a table (create, copy, drop, rename) needs foreign keys off, which SQLite only allows outside
+  // a transaction. They are checked before each commit instead.
+  const foreignKeys = db.pragma('foreign_keys', { simple: true });
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+        const violations = db.pragma('foreign_key_check') as unknown[];
+        if (violations.length) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) leaves ${violations.length} foreign key violations`);
+        }
+        db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+      })();
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+  return pending;
+};
+
+// Consistent copy of the live database, e.g. backups/construction-20261019-093000.db
+export const backupDatabase = async (db: Database.Database, dir = BACKUP_DIR) => {
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/\.\d+Z$/, '').replace(/[-:]/g, '').replace('T', '-');
+  const file = path.join(dir, `${path.basename(DATABASE_FILE, '.db')}-${stamp}.db`);
+  await db.backup(file);
+  return file;
+};
@@ -0,0 +1,279 @@
+import type Database from 'better-sqlite3';
+
+// The schema as it stood before versioned migrations. Databases created by earlier builds already have
+// some or all of it, so every statement tolerates existing objects and columns added later are checked for.
+
+// Adds a column to databases created before it existed
+const ensureColumn = (db: Database.Database, table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// External-content FTS5 index over the text columns of a table, kept in sync by triggers.
+// The trigram tokenizer matches substrings, which works for Japanese text without word breaks.
+const ensureFts = (db: Database.Database, table: string, columns: string[]) => {
+  const fts = `${table}_fts`;
+  const exists = db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(fts);
+  const list = columns.join(', ');
+  const values = (prefix: string) => columns.map(c => `${prefix}.${c}`).join(', ');
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(${list}, content='${table}', content_rowid='id', tokenize='trigram');
+    CREATE TRIGGER IF NOT EXISTS ${fts}_insert AFTER INSERT ON ${table} BEGIN
+      INSERT INTO ${fts} (rowid, ${list}) VALUES (new.id, ${values('new')});
+    END;
+    CREATE TRIGGER IF NOT EXISTS ${fts}_delete AFTER DELETE ON ${table} BEGIN
+      INSERT INTO ${fts} (${fts}, rowid, ${list}) VALUES ('delete', old.id, ${values('old')});
+    END;
+    CREATE TRIGGER IF NOT EXISTS ${fts}_update AFTER UPDATE ON ${table} BEGIN
+      INSERT INTO ${fts} (${fts}, rowid, ${list}) VALUES ('delete', old.id, ${values('old')});
+      INSERT INTO ${fts} (rowid, ${list}) VALUES (new.id, ${values('new')});
+    END;
+  `);
+  // Index the rows that existed before the FTS table
+  if (!exists) db.exec(`INSERT INTO ${fts} (${fts}) VALUES ('rebuild')`);
+};
+
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT UNIQUE,
+      password TEXT,
+      role TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS inspections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      project_name TEXT,
+      date TEXT,
+      location TEXT,
+      findings TEXT,
+      status TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS trip_reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      destination TEXT,
+      date_start TEXT,
+      date_end TEXT,
+      purpose TEXT,
+      results TEXT,
+      expenses INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS estimates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      client_name TEXT,
+      project_name TEXT,
+      amount INTEGER,
+      details TEXT,
+      status TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS minutes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      title TEXT,
+      date TEXT,
+      attendees TEXT,
+      content TEXT,
+      action_items TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      code TEXT UNIQUE NOT NULL,
+      name TEXT NOT NULL,
+      client TEXT,
+      site_address TEXT,
+      start_date TEXT,
+      end_date TEXT,
+      status TEXT DEFAULT 'active',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS estimate_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      estimate_id INTEGER NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      category TEXT,
+      name TEXT NOT NULL,
+      spec TEXT,
+      quantity REAL NOT NULL DEFAULT 0,
+      unit TEXT,
+      unit_price INTEGER NOT NULL DEFAULT 0,
+      subtotal INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS attachments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      filename TEXT NOT NULL,
+      original_name TEXT,
+      mime_type TEXT,
+      size INTEGER,
+      thumbnail TEXT,
+      caption TEXT,
+      point TEXT,
+      user_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_attachments_entity ON attachments (entity_type, entity_id);
+
+    CREATE TABLE IF NOT EXISTS checklist_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS checklist_template_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      template_id INTEGER NOT NULL REFERENCES checklist_templates(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      section TEXT,
+      label TEXT NOT NULL,
+      critical INTEGER NOT NULL DEFAULT 0
+    );
+
+    -- Checklist rows are copied from the template so later template edits do not rewrite past inspections
+    CREATE TABLE IF NOT EXISTS inspection_checklist_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      inspection_id INTEGER NOT NULL REFERENCES inspections(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      section TEXT,
+      label TEXT NOT NULL,
+      critical INTEGER NOT NULL DEFAULT 0,
+      result TEXT,
+      comment TEXT
+    );
+
+    -- Expense lines of a trip report; the receipt is one of the report's attachments
+    CREATE TABLE IF NOT EXISTS trip_expense_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trip_report_id INTEGER NOT NULL REFERENCES trip_reports(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      category TEXT NOT NULL,
+      date TEXT,
+      description TEXT,
+      amount INTEGER NOT NULL DEFAULT 0,
+      payment_method TEXT,
+      receipt_attachment_id INTEGER REFERENCES attachments(id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_trip_expense_items_report ON trip_expense_items (trip_report_id);
+
+    CREATE TABLE IF NOT EXISTS trip_report_status_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trip_report_id INTEGER NOT NULL REFERENCES trip_reports(id) ON DELETE CASCADE,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      user_id INTEGER,
+      comment TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS estimate_status_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      estimate_id INTEGER NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      user_id INTEGER,
+      comment TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Follow-up work on an inspection finding, optionally tied to the checklist row that failed
+    CREATE TABLE IF NOT EXISTS corrective_actions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      inspection_id INTEGER NOT NULL REFERENCES inspections(id) ON DELETE CASCADE,
+      checklist_item_id INTEGER REFERENCES inspection_checklist_items(id) ON DELETE SET NULL,
+      description TEXT NOT NULL,
+      assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      due_date TEXT,
+      status TEXT NOT NULL DEFAULT 'open',
+      remediation_note TEXT,
+      resolved_at DATETIME,
+      verified_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      verified_at DATETIME,
+      verification_comment TEXT,
+      user_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_corrective_actions_inspection ON corrective_actions (inspection_id);
+
+    -- Attendees are either users or external contacts identified by name and organization
+    CREATE TABLE IF NOT EXISTS minute_attendees (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      minute_id INTEGER NOT NULL REFERENCES minutes(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      name TEXT NOT NULL,
+      organization TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS minute_action_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      minute_id INTEGER NOT NULL REFERENCES minutes(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      description TEXT NOT NULL,
+      owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      due_date TEXT,
+      done INTEGER NOT NULL DEFAULT 0,
+      done_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_minute_action_items_owner ON minute_action_items (owner_id, done);
+
+    -- Who changed what and when, for quality audits. Rows outlive the records and users they mention,
+    -- so the username is copied and nothing references other tables. The log is append-only.
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      username TEXT,
+      action TEXT NOT NULL,
+      entity_type TEXT,
+      entity_id INTEGER,
+      before TEXT,
+      after TEXT,
+      ip TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log (user_id);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `);
+
+  for (const table of ['inspections', 'trip_reports', 'estimates', 'minutes']) {
+    ensureColumn(db, table, 'project_id', 'INTEGER REFERENCES projects(id) ON DELETE SET NULL');
+  }
+  ensureColumn(db, 'estimates', 'subtotal', 'INTEGER');
+  ensureColumn(db, 'estimates', 'discount', 'INTEGER NOT NULL DEFAULT 0');
+  // A literal rather than DEFAULT_TAX_RATE, so the migration stays the same when the rate changes
+  ensureColumn(db, 'estimates', 'tax_rate', 'REAL NOT NULL DEFAULT 0.1');
+  ensureColumn(db, 'estimates', 'tax', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'estimates', 'valid_until', 'TEXT');
+  ensureColumn(db, 'estimates', 'estimate_no', 'TEXT');
+  ensureColumn(db, 'estimates', 'revision', 'INTEGER NOT NULL DEFAULT 1');
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_estimates_no_revision ON estimates (estimate_no, revision)`);
+  ensureColumn(db, 'trip_reports', 'status', "TEXT NOT NULL DEFAULT 'draft'");
+  ensureColumn(db, 'trip_reports', 'paid_at', 'DATETIME');
+  ensureColumn(db, 'inspections', 'template_id', 'INTEGER REFERENCES checklist_templates(id) ON DELETE SET NULL');
+  ensureColumn(db, 'users', 'active', 'INTEGER NOT NULL DEFAULT 1');
+  ensureColumn(db, 'users', 'must_change_password', 'INTEGER NOT NULL DEFAULT 0');
+
+  ensureFts(db, 'inspections', ['project_name', 'location', 'findings']);
+  ensureFts(db, 'trip_reports', ['destination', 'purpose', 'results']);
+  ensureFts(db, 'estimates', ['estimate_no', 'client_name', 'project_name', 'details']);
+  ensureFts(db, 'minutes', ['title', 'attendees', 'content', 'action_items']);
+};
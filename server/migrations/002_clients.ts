@@ -0,0 +1,57 @@
+import type Database from 'better-sqlite3';
+import { normalizeClientName } from '../clientName.ts';
+
+// Client master. name_key (see server/clientName.ts) keeps one row per client however the name is written.
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE clients (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      name_key TEXT NOT NULL UNIQUE,
+      name_kana TEXT,
+      postal_code TEXT,
+      address TEXT,
+      phone TEXT,
+      -- Where invoices go when it is not the head office, e.g. a branch or the parent company
+      billing_name TEXT,
+      billing_address TEXT,
+      -- Qualified invoice issuer registration number (T + 13 digits)
+      invoice_number TEXT,
+      payment_terms TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE client_contacts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      name TEXT NOT NULL,
+      department TEXT,
+      title TEXT,
+      phone TEXT,
+      email TEXT
+    );
+    CREATE INDEX idx_client_contacts_client ON client_contacts (client_id);
+
+    -- client_name stays as the name printed on the quotation
+    ALTER TABLE estimates ADD COLUMN client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL;
+    CREATE INDEX idx_estimates_client ON estimates (client_id);
+  `);
+
+  // One client per spelling group of the existing free-text names, named after its most used spelling
+  const names = db.prepare(`
+    SELECT TRIM(client_name) AS name, COUNT(*) AS uses FROM estimates
+    WHERE TRIM(COALESCE(client_name, '')) <> ''
+    GROUP BY TRIM(client_name) ORDER BY uses DESC, name
+  `).all() as { name: string; uses: number }[];
+  const clientIds = new Map<string, number | bigint>();
+  const insert = db.prepare('INSERT INTO clients (name, name_key) VALUES (?, ?)');
+  const link = db.prepare('UPDATE estimates SET client_id = ? WHERE TRIM(client_name) = ?');
+  for (const { name } of names) {
+    const key = normalizeClientName(name);
+    if (!key) continue;
+    if (!clientIds.has(key)) clientIds.set(key, insert.run(name, key).lastInsertRowid);
+    link.run(clientIds.get(key), name);
+  }
+};
@@ -0,0 +1,11 @@
+import type Database from 'better-sqlite3';
+
+// Offline entry of inspections. version counts edits so a change queued on a tablet can tell whether the record
+// moved on in the meantime; client_key identifies a queued create so uploading it twice stores it once.
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE inspections ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE inspections ADD COLUMN client_key TEXT;
+    CREATE UNIQUE INDEX idx_inspections_client_key ON inspections (client_key);
+  `);
+};
@@ -0,0 +1,9 @@
+import type Database from 'better-sqlite3';
+
+// Secret of each user's calendar feed URL (GET /api/calendar.ics), stored as a SHA-256 hash like a password
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE users ADD COLUMN calendar_token TEXT;
+    CREATE UNIQUE INDEX idx_users_calendar_token ON users (calendar_token);
+  `);
+};
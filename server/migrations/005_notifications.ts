@@ -0,0 +1,26 @@
+import type Database from 'better-sqlite3';
+
+// In-app notifications and reminders, also sent by email to users with an address
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE users ADD COLUMN email TEXT;
+
+    CREATE TABLE notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      -- The record the notification opens
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      -- One notification per user and occasion (e.g. a task and its due date), however often the scheduler runs
+      dedupe_key TEXT NOT NULL,
+      title TEXT NOT NULL,
+      body TEXT,
+      read_at DATETIME,
+      emailed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, dedupe_key)
+    );
+    CREATE INDEX idx_notifications_user ON notifications (user_id, read_at);
+  `);
+};
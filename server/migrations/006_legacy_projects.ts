@@ -0,0 +1,23 @@
+import type Database from 'better-sqlite3';
+
+// Free-text project names from before the project master become project rows, linked from their inspections and estimates.
+// The client of the first estimate with the name is taken as the project's client.
+export const up = (db: Database.Database) => {
+  const names = db.prepare(`
+    SELECT project_name FROM inspections WHERE project_id IS NULL AND TRIM(COALESCE(project_name, '')) <> ''
+    UNION
+    SELECT project_name FROM estimates WHERE project_id IS NULL AND TRIM(COALESCE(project_name, '')) <> ''
+  `).pluck().all() as string[];
+
+  const find = db.prepare('SELECT id FROM projects WHERE name = ?').pluck();
+  const nextId = db.prepare('SELECT COALESCE(MAX(id), 0) + 1 FROM projects').pluck();
+  const insert = db.prepare('INSERT INTO projects (code, name, client) VALUES (?, ?, (SELECT client_name FROM estimates WHERE project_name = ? LIMIT 1))');
+  const linkInspections = db.prepare('UPDATE inspections SET project_id = ? WHERE project_id IS NULL AND project_name = ?');
+  const linkEstimates = db.prepare('UPDATE estimates SET project_id = ? WHERE project_id IS NULL AND project_name = ?');
+  for (const name of names) {
+    const projectId = (find.get(name) as number | undefined)
+      ?? insert.run(`P-${String(nextId.get()).padStart(4, '0')}`, name, name).lastInsertRowid;
+    linkInspections.run(projectId, name);
+    linkEstimates.run(projectId, name);
+  }
+};
@@ -0,0 +1,14 @@
+import type Database from 'better-sqlite3';
+
+// Estimates from before line items only have a lump-sum amount. It is kept exact as a single 一式 line without tax.
+export const up = (db: Database.Database) => {
+  const legacy = db.prepare('SELECT id, project_name, amount FROM estimates WHERE subtotal IS NULL').all() as
+    { id: number; project_name: string | null; amount: number | null }[];
+  const insert = db.prepare(`INSERT INTO estimate_items (estimate_id, name, quantity, unit, unit_price, subtotal) VALUES (?, ?, 1, '式', ?, ?)`);
+  const update = db.prepare('UPDATE estimates SET subtotal = ?, discount = 0, tax_rate = 0, tax = 0 WHERE id = ?');
+  for (const estimate of legacy) {
+    const amount = Number(estimate.amount) || 0;
+    insert.run(estimate.id, estimate.project_name || '工事一式', amount, amount);
+    update.run(amount, estimate.id);
+  }
+};
@@ -0,0 +1,6 @@
+import type Database from 'better-sqlite3';
+
+// Estimates from before revisions get a number of their own (E- and the zero-padded id) as revision 1
+export const up = (db: Database.Database) => {
+  db.exec(`UPDATE estimates SET estimate_no = 'E-' || printf('%06d', id) WHERE estimate_no IS NULL`);
+};
@@ -0,0 +1,10 @@
+import type Database from 'better-sqlite3';
+
+// Before the approval workflow, 'approved' meant the client accepted the quote. Estimates approved through the
+// workflow have a status history and keep their status.
+export const up = (db: Database.Database) => {
+  db.exec(`
+    UPDATE estimates SET status = 'accepted'
+    WHERE status = 'approved' AND id NOT IN (SELECT estimate_id FROM estimate_status_history)
+  `);
+};
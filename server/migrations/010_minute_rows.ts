@@ -0,0 +1,26 @@
+import type Database from 'better-sqlite3';
+
+// Minutes from before attendees and action items were rows keep them as free text: attendees separated by commas,
+// action items one per line with list bullets. Both become rows; attendee names matching a username link to that user.
+export const up = (db: Database.Database) => {
+  const legacy = db.prepare(`
+    SELECT id, attendees, action_items FROM minutes m
+    WHERE NOT EXISTS (SELECT 1 FROM minute_attendees WHERE minute_id = m.id)
+      AND NOT EXISTS (SELECT 1 FROM minute_action_items WHERE minute_id = m.id)
+      AND (TRIM(COALESCE(attendees, '')) <> '' OR TRIM(COALESCE(action_items, '')) <> '')
+  `).all() as { id: number; attendees: string | null; action_items: string | null }[];
+
+  const userId = db.prepare('SELECT id FROM users WHERE username = ?').pluck();
+  const insertAttendee = db.prepare('INSERT INTO minute_attendees (minute_id, sort_order, user_id, name) VALUES (?, ?, ?, ?)');
+  const insertActionItem = db.prepare('INSERT INTO minute_action_items (minute_id, sort_order, description) VALUES (?, ?, ?)');
+  // The text columns stay as the search summary, normalized the way saving the minutes writes them
+  const updateSummary = db.prepare('UPDATE minutes SET attendees = ?, action_items = ? WHERE id = ?');
+  for (const minute of legacy) {
+    const names = (minute.attendees ?? '').split(/[,、，]/).map(name => name.trim()).filter(Boolean);
+    const descriptions = (minute.action_items ?? '').split(/\r?\n/)
+      .map(line => line.replace(/^\s*(?:[-・*•]|\d+[.)．])\s*/, '').trim()).filter(Boolean);
+    names.forEach((name, index) => insertAttendee.run(minute.id, index, userId.get(name) ?? null, name));
+    descriptions.forEach((description, index) => insertActionItem.run(minute.id, index, description));
+    updateSummary.run(names.join(', '), descriptions.join('\n'), minute.id);
+  }
+};
@@ -0,0 +1,10 @@
+import type Database from 'better-sqlite3';
+
+// Trip reports from before expense lines keep their single total as one その他 line
+export const up = (db: Database.Database) => {
+  db.exec(`
+    INSERT INTO trip_expense_items (trip_report_id, sort_order, category, date, description, amount)
+    SELECT id, 0, 'other', date_start, '経費合計（明細導入前）', expenses FROM trip_reports t
+    WHERE COALESCE(expenses, 0) <> 0 AND NOT EXISTS (SELECT 1 FROM trip_expense_items WHERE trip_report_id = t.id)
+  `);
+};
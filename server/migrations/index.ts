@@ -0,0 +1,27 @@
+import type { Migration } from '../migrate.ts';
+import * as initial from './001_initial.ts';
+import * as clients from './002_clients.ts';
+import * as offlineSync from './003_offline_sync.ts';
+import * as calendarFeed from './004_calendar_feed.ts';
+import * as notifications from './005_notifications.ts';
+import * as legacyProjects from './006_legacy_projects.ts';
+import * as legacyEstimateLines from './007_legacy_estimate_lines.ts';
+import * as estimateNumbers from './008_estimate_numbers.ts';
+import * as acceptedEstimates from './009_accepted_estimates.ts';
+import * as minuteRows from './010_minute_rows.ts';
+import * as tripExpenseLines from './011_trip_expense_lines.ts';
+
+// Applied in order of version. A migration that has shipped is never edited or renumbered; change the schema with a new one.
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'initial', up: initial.up },
+  { version: 2, name: 'clients', up: clients.up },
+  { version: 3, name: 'offline_sync', up: offlineSync.up },
+  { version: 4, name: 'calendar_feed', up: calendarFeed.up },
+  { version: 5, name: 'notifications', up: notifications.up },
+  { version: 6, name: 'legacy_projects', up: legacyProjects.up },
+  { version: 7, name: 'legacy_estimate_lines', up: legacyEstimateLines.up },
+  { version: 8, name: 'estimate_numbers', up: estimateNumbers.up },
+  { version: 9, name: 'accepted_estimates', up: acceptedEstimates.up },
+  { version: 10, name: 'minute_rows', up: minuteRows.up },
+  { version: 11, name: 'trip_expense_lines', up: tripExpenseLines.up },
+];
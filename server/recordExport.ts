@@ -0,0 +1,33 @@
+// Spreadsheet downloads of the record lists, as CSV or a single-sheet Excel workbook
+import ExcelJS from 'exceljs';
+import { toCsv } from './csv.ts';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+export interface ExportColumn {
+  header: string;
+  value: (row: any) => unknown;
+  // Excel column width in characters
+  width?: number;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export async function renderExport(format: ExportFormat, sheetName: string, columns: ExportColumn[], rows: any[]): Promise<string | Buffer> {
+  const values = rows.map(row => columns.map(column => column.value(row) ?? null));
+  if (format === 'csv') {
+    return toCsv(columns.map(column => column.header), values, { escapeFormulas: true });
+  }
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({ header: column.header, width: column.width ?? 14 }));
+  sheet.addRows(values);
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import type { z } from 'zod';
+import { fieldErrors, type ValidationErrorBody } from '../src/schemas.ts';
+
+// Every API error is `{ error }` with an English message; validation failures add per-field messages (see src/schemas.ts)
+
+// Replaces req.body with the parsed data, so handlers only ever see checked and converted values
+export const validate = (schema: z.ZodType): RequestHandler => (req, res, next) => {
+  const result = schema.safeParse(req.body ?? {});
+  if (!result.success) {
+    const body: ValidationErrorBody = { error: 'Validation failed', fields: fieldErrors(result.error) };
+    return res.status(400).json(body);
+  }
+  req.body = result.data;
+  next();
+};
+
+// Express 4 does not catch rejected promises; this passes them to the error handler
+export const asyncHandler = (handler: (req: any, res: any, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => handler(req, res, next).catch(next);
+
+export const apiNotFound = (req: Request, res: Response) => res.status(404).json({ error: 'Not found' });
+
+// Last middleware: malformed bodies and upload limits are the client's fault, anything else is logged without leaking details
+export const apiErrorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(err);
+  if (err instanceof multer.MulterError) {
+    return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: err.message });
+  }
+  if (err?.type === 'entity.parse.failed') return res.status(400).json({ error: 'Malformed JSON body' });
+  if (err?.type === 'entity.too.large') return res.status(413).json({ error: 'Request body too large' });
+  if (err?.code === 'SQLITE_CONSTRAINT_UNIQUE') return res.status(409).json({ error: 'A record with the same value already exists' });
+  if (typeof err?.status === 'number' && err.status >= 400 && err.status < 500) {
+    return res.status(err.status).json({ error: err.expose ? err.message : 'Bad request' });
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error' });
+};
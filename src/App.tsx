@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useContext, createContext } from 'react';
 import { 
   LayoutDashboard, 
   ClipboardCheck, 
@@ -20,63 +20,436 @@ import {
   CheckCircle2,
   Clock,
   Menu,
+  FolderKanban,
+  ArrowLeft,
+  Pencil,
+  Trash2,
+  UserCog,
+  KeyRound,
+  FileDown,
+  GitCompare,
+  Copy,
+  ImagePlus,
+  Paperclip,
+  ListTodo,
+  Wallet,
+  Receipt,
+  FileUp,
+  ShieldCheck,
+  Building2,
+  Sparkles,
+  CloudOff,
+  RefreshCw,
+  CalendarDays,
+  Bell,
   X
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import {
+  computeEstimateTotals,
+  lineSubtotal,
+  DEFAULT_TAX_RATE,
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_UNITS,
+  ESTIMATE_STATUS_LABELS,
+  ESTIMATE_TRANSITIONS,
+  type EstimateItemInput,
+  type EstimateStatus
+} from './estimate.ts';
+import {
+  deriveInspectionStatus,
+  rollUpInspectionStatus,
+  CHECKLIST_RESULT_LABELS,
+  CORRECTIVE_ACTION_STATUS_LABELS,
+  INSPECTION_STATUS_LABELS,
+  type ChecklistItemInput,
+  type ChecklistResult,
+  type CorrectiveActionStatus,
+  type InspectionStatus
+} from './checklist.ts';
+import {
+  clearCachedData,
+  editChange,
+  listChanges,
+  onQueueChange,
+  queueChange,
+  removeChange,
+  saveChange,
+  syncChanges,
+  OFFLINE_RESOURCES,
+  type OfflineResource,
+  type PendingChange
+} from './offlineQueue.ts';
+import { NOTIFICATION_KIND_LABELS, type NotificationKind } from './notifications.ts';
+import {
+  tripExpenseTotal,
+  EXPENSE_CATEGORY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  TRIP_REPORT_STATUS_LABELS,
+  TRIP_REPORT_TRANSITIONS,
+  type ExpenseCategory,
+  type PaymentMethod,
+  type TripExpenseItemInput,
+  type TripReportStatus
+} from './tripExpense.ts';
+import {
+  ROLE_LABELS,
+  PROJECT_STATUS_LABELS,
+  MIN_PASSWORD_LENGTH,
+  type Role,
+  type ProjectStatus,
+  type ProjectInput,
+  type ClientInput,
+  type ClientContactInput,
+  type InspectionInput,
+  type TripReportInput,
+  type EstimateInput,
+  type MinuteInput,
+  type ValidationErrorBody
+} from './schemas.ts';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, type AuditAction } from './audit.ts';
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Local calendar date as YYYY-MM-DD, comparable with date inputs
+const localToday = () => new Date().toLocaleDateString('sv-SE');
+
 // --- Types ---
 
-type View = 'dashboard' | 'inspections' | 'trip-reports' | 'estimates' | 'minutes';
+type View = 'dashboard' | 'schedule' | 'projects' | 'clients' | 'inspections' | 'trip-reports' | 'estimates' | 'minutes' | 'tasks' | 'expenses' | 'users' | 'audit';
+
+type Action = 'read' | 'create' | 'update' | 'delete' | 'approve';
 
 interface User {
   id: number;
   username: string;
-  role: string;
+  role: Role;
+  must_change_password: boolean;
+  // Allowed actions per resource, as computed by the server for this role
+  permissions: Record<string, Action[]>;
+  // Whether the server has a model for the AI drafting buttons
+  ai_drafting: boolean;
+}
+
+interface UserOption {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+interface ManagedUser {
+  id: number;
+  username: string;
+  role: Role;
+  active: number;
+  must_change_password: number;
+  email: string | null;
+}
+
+interface AppNotification {
+  id: number;
+  kind: NotificationKind;
+  // The record the notification opens
+  entity_type: View;
+  entity_id: number;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Records as returned by the API: the fields accepted on save (src/schemas.ts) plus server-maintained ones
+interface Project extends ProjectInput {
+  id: number;
+  code: string;
+  status: ProjectStatus;
+}
+
+interface ClientContact extends ClientContactInput {
+  id?: number;
+}
+
+interface Client extends Omit<ClientInput, 'contacts'> {
+  id: number;
+  contacts?: ClientContact[];
+  // List only
+  estimate_count?: number;
+  primary_contact?: string | null;
+}
+
+interface ClientSummary {
+  client: Client;
+  estimates: Pick<Estimate, 'id' | 'estimate_no' | 'revision' | 'project_name' | 'amount' | 'status' | 'valid_until'>[];
+  stats: {
+    estimate_count: number;
+    total_amount: number;
+    won_count: number;
+    won_amount: number;
+    lost_count: number;
+    win_rate: number | null;
+  };
+  minutes: { id: number; title: string; date: string; project_name: string | null }[];
+}
+
+interface TimelineItem {
+  type: 'inspections' | 'trip-reports' | 'estimates' | 'minutes';
+  id: number;
+  date: string | null;
+  title: string;
+  summary: string;
+  status: string | null;
+}
+
+interface Inspection extends Omit<InspectionInput, 'checklist'> {
+  id: number;
+  status: InspectionStatus;
+  // Counts edits; sent back with an update so a stale edit is refused
+  version?: number;
+  checklist?: (ChecklistItemInput & { id?: number })[];
+  corrective_actions?: CorrectiveAction[];
 }
 
-interface Inspection {
+interface CorrectiveAction {
   id: number;
-  project_name: string;
-  date: string;
-  location: string;
-  findings: string;
-  status: 'pending' | 'completed' | 'urgent';
+  inspection_id: number;
+  checklist_item_id: number | null;
+  checklist_label: string | null;
+  critical: number;
+  description: string;
+  assignee_id: number | null;
+  assignee_name: string | null;
+  due_date: string | null;
+  status: CorrectiveActionStatus;
+  remediation_note: string | null;
+  resolved_at: string | null;
+  verified_by_name: string | null;
+  verified_at: string | null;
+  verification_comment: string | null;
+  project_name: string | null;
+  location: string | null;
 }
 
-interface TripReport {
+const correctiveActionStatusStyles: Record<CorrectiveActionStatus, string> = {
+  open: 'bg-amber-50 text-amber-600',
+  resolved: 'bg-blue-50 text-blue-600',
+  verified: 'bg-emerald-50 text-emerald-600',
+};
+
+interface ChecklistTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  items: { section: string | null; label: string; critical: number }[];
+}
+
+interface TripReport extends Omit<TripReportInput, 'items'> {
   id: number;
-  destination: string;
-  date_start: string;
-  date_end: string;
-  purpose: string;
-  results: string;
+  // Sum of the expense lines
   expenses: number;
+  status: TripReportStatus;
+  paid_at: string | null;
+  user_id: number | null;
+  // Author, included in list responses
+  username?: string | null;
+  items?: TripExpenseItem[];
+  history?: StatusChange<TripReportStatus>[];
+}
+
+interface TripExpenseItem extends TripExpenseItemInput {
+  id?: number;
+  receipt_name?: string | null;
+}
+
+interface ExpenseSummaryRow extends Record<ExpenseCategory, number> {
+  user_id: number | null;
+  username: string | null;
+  reports: number;
+  reimbursable: number;
+  total: number;
+}
+
+interface ExpenseSummary {
+  month: string;
+  employees: ExpenseSummaryRow[];
+  totals: Omit<ExpenseSummaryRow, 'user_id' | 'username'>;
+}
+
+interface EstimateItem extends EstimateItemInput {
+  id?: number;
+  subtotal?: number;
 }
 
-interface Estimate {
+interface Estimate extends Omit<EstimateInput, 'items'> {
   id: number;
-  client_name: string;
-  project_name: string;
+  estimate_no: string;
+  revision: number;
+  subtotal: number;
+  discount: number;
+  tax_rate: number;
+  tax: number;
   amount: number;
-  details: string;
-  status: 'draft' | 'sent' | 'approved' | 'rejected';
+  status: EstimateStatus;
+  items?: EstimateItem[];
+  history?: StatusChange<EstimateStatus>[];
+  revisions?: { id: number; revision: number; status: EstimateStatus; amount: number; created_at: string }[];
+}
+
+interface EstimateComparison {
+  before: { id: number; revision: number };
+  after: { id: number; revision: number };
+  fields: { field: string; before: string | number | null; after: string | number | null }[];
+  items: { change: 'added' | 'removed' | 'changed'; before: EstimateItem | null; after: EstimateItem | null }[];
 }
 
-interface Minute {
+interface AuditEntry {
   id: number;
-  title: string;
-  date: string;
+  user_id: number | null;
+  username: string | null;
+  action: AuditAction;
+  entity_type: string | null;
+  entity_id: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  // UTC
+  created_at: string;
+}
+
+interface StatusChange<S extends string> {
+  id: number;
+  from_status: S | null;
+  to_status: S;
+  user_id: number | null;
+  username: string | null;
+  comment: string | null;
+  created_at: string;
+}
+
+const estimateStatusStyles: Record<EstimateStatus, string> = {
+  draft: 'bg-zinc-100 text-zinc-500',
+  submitted: 'bg-amber-50 text-amber-600',
+  approved: 'bg-indigo-50 text-indigo-600',
+  sent: 'bg-blue-50 text-blue-600',
+  accepted: 'bg-emerald-50 text-emerald-600',
+  rejected: 'bg-red-50 text-red-600',
+};
+
+const tripReportStatusStyles: Record<TripReportStatus, string> = {
+  draft: 'bg-zinc-100 text-zinc-500',
+  submitted: 'bg-amber-50 text-amber-600',
+  approved: 'bg-indigo-50 text-indigo-600',
+  paid: 'bg-emerald-50 text-emerald-600',
+};
+
+interface Minute extends Omit<MinuteInput, 'participants' | 'tasks' | 'attendees' | 'action_items'> {
+  id: number;
+  // Text summaries of participants and tasks, as shown in lists and search
   attendees: string;
-  content: string;
   action_items: string;
+  open_tasks?: number;
+  participants?: MinuteAttendee[];
+  tasks?: ActionItem[];
+}
+
+// A meeting attendee: a user, or an external contact with only a name and organization
+interface MinuteAttendee {
+  user_id: number | null;
+  name: string;
+  organization: string | null;
+}
+
+interface ActionItem {
+  id?: number;
+  minute_id?: number;
+  description: string;
+  owner_id: number | null;
+  owner_name?: string | null;
+  due_date: string | null;
+  done: number;
+  done_at?: string | null;
+  minute_title?: string;
+  minute_date?: string | null;
+  project_name?: string | null;
+}
+
+interface Attachment {
+  id: number;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  thumbnail: string | null;
+  caption: string | null;
+  point: string | null;
+  created_at: string;
+}
+
+interface DashboardData {
+  range: { from: string; to: string };
+  inspections: { total: number; pending: number; urgent: number; completed: number; recent: Inspection[] } | null;
+  estimates: {
+    pipeline: { status: EstimateStatus; count: number; amount: number }[];
+    open_value: number;
+    won_value: number;
+    win_rate: number | null;
+  } | null;
+  trips: { monthly: { month: string; count: number; expenses: number }[]; total: number } | null;
+  action_items: { corrective_open: number | null; corrective_overdue: number | null; tasks_open: number | null; tasks_overdue: number | null };
+  overdue_actions: CorrectiveAction[];
+  overdue_tasks: ActionItem[];
+  // The caller's latest unread notifications
+  notifications: AppNotification[];
+}
+
+type RecordItem = Project | Client | Inspection | TripReport | Estimate | Minute | ManagedUser;
+
+// Record types with searchable, paginated lists
+type ListView = 'inspections' | 'trip-reports' | 'estimates' | 'minutes';
+
+const isListView = (view: View): view is ListView =>
+  view === 'inspections' || view === 'trip-reports' || view === 'estimates' || view === 'minutes';
+
+interface ListFilters {
+  q: string;
+  status: string;
+  from: string;
+  to: string;
+  project_id: string;
+  author: string;
+  sort: string;
+  order: 'asc' | 'desc';
 }
 
+const emptyFilters: ListFilters = { q: '', status: '', from: '', to: '', project_id: '', author: '', sort: '', order: 'desc' };
+
+// Query string of the list and export routes; unset filters are left out
+const filterParams = (filters: ListFilters) => new URLSearchParams(Object.entries(filters).filter(([, value]) => value !== ''));
+
+interface SearchResult {
+  id: number;
+  title: string;
+  subtitle: string;
+  date: string | null;
+}
+
+const viewTitles: Record<View, string> = {
+  dashboard: 'ダッシュボード',
+  schedule: 'スケジュール',
+  projects: 'プロジェクト',
+  clients: '顧客',
+  inspections: '現場点検記録',
+  'trip-reports': '出張報告',
+  estimates: '見積もり',
+  minutes: '打ち合わせ議事録',
+  tasks: 'マイタスク',
+  expenses: '経費精算',
+  users: 'ユーザー管理',
+  audit: '監査ログ',
+};
+
 // --- Components ---
 
 const Card = ({ children, className }: { children: React.ReactNode; className?: string; key?: React.Key }) => (
@@ -90,13 +463,16 @@ const Button = ({
   onClick, 
   variant = 'primary', 
   className,
-  type = 'button'
+  type = 'button',
+  disabled
 }: { 
   children: React.ReactNode; 
   onClick?: () => void; 
   variant?: 'primary' | 'secondary' | 'ghost' | 'danger';
   className?: string;
   type?: 'button' | 'submit';
+  disabled?: boolean;
+  key?: React.Key;
 }) => {
   const variants = {
     primary: "bg-zinc-900 text-white hover:bg-zinc-800",
@@ -109,8 +485,9 @@ const Button = ({
     <button 
       type={type}
       onClick={onClick}
+      disabled={disabled}
       className={cn(
-        "px-4 py-2 rounded-xl font-medium transition-all active:scale-95 flex items-center justify-center gap-2",
+        "px-4 py-2 rounded-xl font-medium transition-all active:scale-95 flex items-center justify-center gap-2 disabled:opacity-40 disabled:pointer-events-none",
         variants[variant],
         className
       )}
@@ -120,37 +497,95 @@ const Button = ({
   );
 };
 
-const Input = ({ label, ...props }: { label: string } & React.InputHTMLAttributes<HTMLInputElement>) => (
-  <div className="space-y-1.5">
-    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
-    <input 
-      {...props}
-      className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all"
-    />
-  </div>
-);
+// Field messages of a rejected save (400 with `fields`), shown under the input with the same name
+const FieldErrorsContext = createContext<Record<string, string>>({});
 
-const TextArea = ({ label, ...props }: { label: string } & React.TextareaHTMLAttributes<HTMLTextAreaElement>) => (
-  <div className="space-y-1.5">
-    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
-    <textarea 
-      {...props}
-      className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all min-h-[100px]"
-    />
-  </div>
-);
+const useFieldError = (name?: string) => {
+  const errors = useContext(FieldErrorsContext);
+  return name ? errors[name] : undefined;
+};
 
-const Select = ({ label, options, ...props }: { label: string, options: { value: string, label: string }[] } & React.SelectHTMLAttributes<HTMLSelectElement>) => (
-  <div className="space-y-1.5">
-    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
-    <select 
-      {...props}
-      className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all appearance-none"
-    >
-      {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
-    </select>
-  </div>
-);
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs font-medium text-red-600">{message}</p> : null;
+
+const invalidField = 'border-red-300 bg-red-50/50 focus:border-red-500';
+
+const Input = ({ label, ...props }: { label: string } & React.InputHTMLAttributes<HTMLInputElement>) => {
+  const error = useFieldError(props.name);
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
+      <input 
+        {...props}
+        aria-invalid={!!error}
+        className={cn("w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all", error && invalidField)}
+      />
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+const TextArea = ({ label, ...props }: { label: string } & React.TextareaHTMLAttributes<HTMLTextAreaElement>) => {
+  const error = useFieldError(props.name);
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
+      <textarea 
+        {...props}
+        aria-invalid={!!error}
+        className={cn("w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all min-h-[100px]", error && invalidField)}
+      />
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+const Select = ({ label, options, ...props }: { label: string, options: { value: string, label: string }[] } & React.SelectHTMLAttributes<HTMLSelectElement>) => {
+  const error = useFieldError(props.name);
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</label>
+      <select 
+        {...props}
+        aria-invalid={!!error}
+        className={cn("w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-zinc-900/5 focus:border-zinc-900 transition-all appearance-none", error && invalidField)}
+      >
+        {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+      </select>
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+// Row editors post their rows as JSON in a hidden field, so messages like "items.2.amount" have no input of their own
+const rowFieldLabels: Record<string, string> = { items: '明細', checklist: 'チェックリスト', participants: '出席者', tasks: 'タスク', contacts: '担当者' };
+
+const unplacedFieldErrors = (form: HTMLFormElement, fields: Record<string, string>) =>
+  Object.entries(fields)
+    .filter(([key]) => {
+      const element = form.elements.namedItem(key);
+      return !element || (element instanceof HTMLInputElement && element.type === 'hidden');
+    })
+    .map(([key, message]) => {
+      const [root, index] = key.split('.');
+      return root in rowFieldLabels && index !== undefined ? `${rowFieldLabels[root]} ${Number(index) + 1}行目：${message}` : message;
+    });
+
+interface FormErrors {
+  fields: Record<string, string>;
+  unplaced: string[];
+}
+
+const noFormErrors: FormErrors = { fields: {}, unplaced: [] };
+
+// Form contents as posted, with the rows of the row editors parsed back from their hidden fields
+const readForm = (form: HTMLFormElement) => {
+  const data: Record<string, unknown> = Object.fromEntries(new FormData(form).entries());
+  for (const key of Object.keys(rowFieldLabels)) {
+    if (typeof data[key] === 'string') data[key] = JSON.parse(data[key] as string);
+  }
+  return data;
+};
 
 // --- Main App ---
 
@@ -165,19 +600,70 @@ export default function App() {
   const [tripReports, setTripReports] = useState<TripReport[]>([]);
   const [estimates, setEstimates] = useState<Estimate[]>([]);
   const [minutes, setMinutes] = useState<Minute[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+  const [selectedClientId, setSelectedClientId] = useState<number | null>(null);
+  // List filters are kept per view so switching views does not lose them
+  const [filtersByView, setFiltersByView] = useState<Partial<Record<ListView, ListFilters>>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const filters: ListFilters = (isListView(view) && filtersByView[view]) || emptyFilters;
 
   // Form states
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<RecordItem | null>(null);
+  const [formErrors, setFormErrors] = useState<FormErrors>(noFormErrors);
+  // An AI draft merged into the form contents; a new version remounts the form so every field shows it
+  const [draft, setDraft] = useState<{ version: number; values: Record<string, unknown> } | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  const [isPasswordOpen, setIsPasswordOpen] = useState(false);
+
+  // Offline mode: changes saved without a connection wait in the queue (src/offlineQueue.ts)
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  // The queued change open in the form; saving edits it instead of uploading
+  const [queued, setQueued] = useState<PendingChange | null>(null);
+  const [conflict, setConflict] = useState<PendingChange | null>(null);
+  // Bumped after an upload so the current view reloads
+  const [syncedAt, setSyncedAt] = useState(0);
+  // Bumped when a notification is read outside the bell, so its count follows
+  const [notificationsReadAt, setNotificationsReadAt] = useState(0);
 
   useEffect(() => {
     checkAuth();
   }, []);
 
   useEffect(() => {
-    if (user) {
+    if (user && !user.must_change_password) {
       fetchData();
     }
-  }, [user, view]);
+  }, [user, view, filtersByView, syncedAt]);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadPending = () => listChanges(user.id).then(setPendingChanges).catch(console.error);
+    const goOnline = () => { setIsOnline(true); syncNow(); };
+    const goOffline = () => setIsOnline(false);
+    loadPending();
+    syncNow();
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    const unsubscribe = onQueueChange(loadPending);
+    // Weak reception fails requests without the browser ever going offline, so retry now and then as well
+    const retry = window.setInterval(syncNow, 60_000);
+    return () => {
+      window.clearInterval(retry);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  const syncNow = () => {
+    if (!user) return;
+    syncChanges(user.id).then(synced => { if (synced) setSyncedAt(Date.now()); }).catch(console.error);
+  };
 
   const checkAuth = async () => {
     try {
@@ -193,23 +679,48 @@ export default function App() {
     }
   };
 
-  const fetchData = async () => {
+  // Loads the current view; with a cursor the next page of the list is appended
+  const fetchData = async (cursor?: string) => {
     try {
-      const endpoints = {
+      // The dashboard loads its own KPIs for the selected date range
+      const endpoints: Partial<Record<View, string>> = {
+        projects: '/api/projects',
+        clients: '/api/clients',
         inspections: '/api/inspections',
         'trip-reports': '/api/trip-reports',
         estimates: '/api/estimates',
         minutes: '/api/minutes',
-        dashboard: '/api/inspections' // Just for some initial data
+        users: '/api/users',
       };
+      let endpoint = endpoints[view];
+      if (endpoint && isListView(view)) {
+        const params = filterParams(filters);
+        if (cursor) params.set('cursor', cursor);
+        endpoint = `${endpoint}?${params}`;
+      }
       
-      const res = await fetch(endpoints[view]);
-      if (res.ok) {
+      // Projects back the project selector in every form, so keep them loaded; clients back the one in the estimate form
+      const [res, projectsRes, clientsRes] = await Promise.all([
+        endpoint ? fetch(endpoint) : null,
+        fetch('/api/projects'),
+        view === 'estimates' ? fetch('/api/clients') : null,
+      ]);
+      if (projectsRes.ok) setProjects(await projectsRes.json());
+      if (clientsRes?.ok) setClients(await clientsRes.json());
+      if (res?.ok) {
         const data = await res.json();
-        if (view === 'inspections') setInspections(data);
-        if (view === 'trip-reports') setTripReports(data);
-        if (view === 'estimates') setEstimates(data);
-        if (view === 'minutes') setMinutes(data);
+        const apply = <T,>(set: React.Dispatch<React.SetStateAction<T[]>>) =>
+          set(previous => cursor ? [...previous, ...data.items] : data.items);
+        if (view === 'inspections') apply(setInspections);
+        if (view === 'trip-reports') apply(setTripReports);
+        if (view === 'estimates') apply(setEstimates);
+        if (view === 'minutes') apply(setMinutes);
+        if (view === 'users') setUsers(data);
+        if (view === 'clients') setClients(data);
+        if (isListView(view)) setNextCursor(data.next_cursor);
+      } else if (res?.status === 400) {
+        const { error } = await res.json();
+        alert(`検索条件が正しくありません（${error}）`);
       }
     } catch (e) {
       console.error(e);
@@ -231,6 +742,8 @@ export default function App() {
       if (res.ok) {
         const data = await res.json();
         setUser(data);
+      } else if (res.status === 403) {
+        alert('このアカウントは無効化されています');
       } else {
         alert('ログインに失敗しました');
       }
@@ -239,8 +752,88 @@ export default function App() {
     }
   };
 
+  const openCreate = () => {
+    setEditing(null);
+    setDraft(null);
+    setQueued(null);
+    setFormErrors(noFormErrors);
+    setIsModalOpen(true);
+  };
+
+  // A record with a queued edit opens with the queued contents; a conflicting one opens the comparison first
+  const openDetail = async (item: { id: number }, target: View = view) => {
+    const change = pendingChanges.find(c => c.resource === target && c.record_id === item.id);
+    if (change?.status === 'conflict') return setConflict(change);
+    try {
+      const res = await fetch(`/api/${target}/${item.id}`);
+      if (res.ok) {
+        const record = await res.json();
+        setView(target);
+        setEditing(record);
+        setDraft(change ? { version: 1, values: { ...record, ...change.body } } : null);
+        setQueued(change ?? null);
+        setFormErrors(change?.error ? { fields: {}, unplaced: [change.error] } : noFormErrors);
+        setIsModalOpen(true);
+      } else {
+        alert('データの取得に失敗しました');
+      }
+    } catch (e) {
+      console.error(e);
+      // The service worker only has the records opened on this device before
+      if (!navigator.onLine) alert('オフラインのため開けません。一度オンラインで開いた記録はオフラインでも表示できます');
+    }
+  };
+
+  const openNotification = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await fetch(`/api/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read: true })
+      }).catch(console.error);
+      setNotificationsReadAt(Date.now());
+    }
+    openDetail({ id: notification.entity_id }, notification.entity_type);
+  };
+
+  // A record created offline exists only in the queue until it is uploaded
+  const openQueuedCreate = (change: PendingChange) => {
+    setEditing(null);
+    setDraft({ version: 1, values: change.body });
+    setQueued(change);
+    setFormErrors(change.error ? { fields: {}, unplaced: [change.error] } : noFormErrors);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+    setDraft(null);
+    setQueued(null);
+    setFormErrors(noFormErrors);
+  };
+
+  const discardQueued = async () => {
+    if (!queued || !confirm('未同期の変更を破棄しますか？')) return;
+    await removeChange(queued.id);
+    closeModal();
+  };
+
+  const handleDelete = async () => {
+    if (!editing || !confirm('このデータを削除しますか？')) return;
+    const res = await fetch(`/api/${view}/${editing.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      closeModal();
+      fetchData();
+    } else {
+      alert('削除に失敗しました');
+    }
+  };
+
   const handleLogout = async () => {
+    if (pendingChanges.length > 0 && !confirm(`未同期の変更が${pendingChanges.length}件あります。変更はこの端末に残り、次にログインしたときに送信されます。ログアウトしますか？`)) return;
     await fetch('/api/logout', { method: 'POST' });
+    await clearCachedData();
     setUser(null);
     setView('dashboard');
   };
@@ -251,6 +844,28 @@ export default function App() {
 
   if (!user) return <LoginView onLogin={handleLogin} />;
 
+  if (user.must_change_password) return (
+    <div className="min-h-screen flex items-center justify-center bg-zinc-50 p-4">
+      <div className="w-full max-w-md bg-white p-10 rounded-[2.5rem] shadow-xl border border-zinc-200">
+        <h1 className="text-2xl font-bold tracking-tight mb-2">パスワードの変更</h1>
+        <p className="text-zinc-400 text-sm mb-8">初回ログインのため、新しいパスワードを設定してください。</p>
+        <ChangePasswordForm onDone={checkAuth} onCancel={handleLogout} cancelLabel="ログアウト" />
+      </div>
+    </div>
+  );
+
+  const can = (resource: string, action: Action) => user.permissions?.[resource]?.includes(action) ?? false;
+  // Estimates are frozen once they leave draft or a newer revision exists; later changes go through the workflow.
+  // Trip reports likewise once their expenses are submitted.
+  const isLocked = !!editing && (
+    (view === 'estimates' && (
+      (editing as Estimate).status !== 'draft' ||
+      (editing as Estimate).revision !== Math.max(...((editing as Estimate).revisions ?? []).map(r => r.revision))
+    )) ||
+    (view === 'trip-reports' && (editing as TripReport).status !== 'draft')
+  );
+  const canSave = editing ? can(view, 'update') && !isLocked : can(view, 'create');
+
   return (
     <div className="flex h-screen bg-zinc-50 text-zinc-900 font-sans overflow-hidden">
       {/* Sidebar */}
@@ -276,30 +891,94 @@ export default function App() {
               active={view === 'dashboard'} 
               onClick={() => setView('dashboard')} 
             />
-            <NavItem 
-              icon={<ClipboardCheck size={20} />} 
-              label="現場点検記録" 
-              active={view === 'inspections'} 
-              onClick={() => setView('inspections')} 
-            />
-            <NavItem 
-              icon={<Plane size={20} />} 
-              label="出張報告" 
-              active={view === 'trip-reports'} 
-              onClick={() => setView('trip-reports')} 
-            />
-            <NavItem 
-              icon={<FileText size={20} />} 
-              label="見積もり" 
-              active={view === 'estimates'} 
-              onClick={() => setView('estimates')} 
-            />
-            <NavItem 
-              icon={<Users size={20} />} 
-              label="打ち合わせ議事録" 
-              active={view === 'minutes'} 
-              onClick={() => setView('minutes')} 
-            />
+            {(can('inspections', 'read') || can('trip-reports', 'read') || can('minutes', 'read')) && (
+              <NavItem 
+                icon={<CalendarDays size={20} />} 
+                label="スケジュール" 
+                active={view === 'schedule'} 
+                onClick={() => setView('schedule')} 
+              />
+            )}
+            {can('projects', 'read') && (
+              <NavItem 
+                icon={<FolderKanban size={20} />} 
+                label="プロジェクト" 
+                active={view === 'projects'} 
+                onClick={() => { setView('projects'); setSelectedProjectId(null); }} 
+              />
+            )}
+            {can('clients', 'read') && (
+              <NavItem 
+                icon={<Building2 size={20} />} 
+                label="顧客" 
+                active={view === 'clients'} 
+                onClick={() => { setView('clients'); setSelectedClientId(null); }} 
+              />
+            )}
+            {can('inspections', 'read') && (
+              <NavItem 
+                icon={<ClipboardCheck size={20} />} 
+                label="現場点検記録" 
+                active={view === 'inspections'} 
+                onClick={() => setView('inspections')} 
+              />
+            )}
+            {can('trip-reports', 'read') && (
+              <NavItem 
+                icon={<Plane size={20} />} 
+                label="出張報告" 
+                active={view === 'trip-reports'} 
+                onClick={() => setView('trip-reports')} 
+              />
+            )}
+            {can('estimates', 'read') && (
+              <NavItem 
+                icon={<FileText size={20} />} 
+                label="見積もり" 
+                active={view === 'estimates'} 
+                onClick={() => setView('estimates')} 
+              />
+            )}
+            {can('minutes', 'read') && (
+              <NavItem 
+                icon={<Users size={20} />} 
+                label="打ち合わせ議事録" 
+                active={view === 'minutes'} 
+                onClick={() => setView('minutes')} 
+              />
+            )}
+            {can('minutes', 'read') && (
+              <NavItem 
+                icon={<ListTodo size={20} />} 
+                label="マイタスク" 
+                active={view === 'tasks'} 
+                onClick={() => setView('tasks')} 
+              />
+            )}
+            {can('expense-payments', 'read') && (
+              <NavItem 
+                icon={<Wallet size={20} />} 
+                label="経費精算" 
+                active={view === 'expenses'} 
+                onClick={() => setView('expenses')} 
+              />
+            )}
+            {can('users', 'read') && (
+              <NavItem 
+                icon={<UserCog size={20} />} 
+                label="ユーザー管理" 
+                active={view === 'users'} 
+                onClick={() => setView('users')} 
+              />
+            )}
+            {can('audit-log', 'read') && (
+              <NavItem 
+                icon={<ShieldCheck size={20} />} 
+                label="監査ログ" 
+                active={view === 'audit'} 
+                onClick={() => setView('audit')} 
+              />
+            )}
           </nav>
 
           <div className="mt-auto pt-6 border-t border-zinc-100">
@@ -309,9 +988,13 @@ export default function App() {
               </div>
               <div>
                 <p className="text-sm font-semibold">{user.username}</p>
-                <p className="text-xs text-zinc-400">管理者</p>
+                <p className="text-xs text-zinc-400">{ROLE_LABELS[user.role] ?? user.role}</p>
               </div>
             </div>
+            <Button variant="ghost" className="w-full justify-start" onClick={() => setIsPasswordOpen(true)}>
+              <KeyRound size={18} />
+              パスワード変更
+            </Button>
             <Button variant="ghost" className="w-full justify-start text-red-500 hover:bg-red-50 hover:text-red-600" onClick={handleLogout}>
               <LogOut size={18} />
               ログアウト
@@ -327,26 +1010,18 @@ export default function App() {
             <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="lg:hidden p-2 hover:bg-zinc-100 rounded-lg">
               <Menu size={20} />
             </button>
-            <h2 className="text-lg font-semibold capitalize">{
-              view === 'dashboard' ? 'ダッシュボード' :
-              view === 'inspections' ? '現場点検記録' :
-              view === 'trip-reports' ? '出張報告' :
-              view === 'estimates' ? '見積もり' : '打ち合わせ議事録'
-            }</h2>
+            <h2 className="text-lg font-semibold capitalize">{viewTitles[view]}</h2>
           </div>
           <div className="flex items-center gap-4">
-            <div className="relative hidden md:block">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
-              <input 
-                type="text" 
-                placeholder="検索..." 
-                className="pl-10 pr-4 py-2 bg-zinc-100 border-transparent rounded-xl text-sm focus:bg-white focus:ring-2 focus:ring-zinc-900/5 transition-all w-64"
-              />
-            </div>
-            <Button onClick={() => setIsModalOpen(true)}>
-              <Plus size={18} />
-              新規作成
-            </Button>
+            <SyncStatus online={isOnline} pending={pendingChanges} onSync={syncNow} />
+            <GlobalSearch onSelect={(type, id) => openDetail({ id }, type)} />
+            <NotificationBell refreshKey={notificationsReadAt} onOpen={openNotification} />
+            {can(view, 'create') && (
+              <Button onClick={openCreate}>
+                <Plus size={18} />
+                新規作成
+              </Button>
+            )}
           </div>
         </header>
 
@@ -359,11 +1034,70 @@ export default function App() {
               exit={{ opacity: 0, y: -10 }}
               transition={{ duration: 0.2 }}
             >
-              {view === 'dashboard' && <DashboardView inspections={inspections} />}
-              {view === 'inspections' && <InspectionsList data={inspections} />}
-              {view === 'trip-reports' && <TripReportsList data={tripReports} />}
-              {view === 'estimates' && <EstimatesList data={estimates} />}
-              {view === 'minutes' && <MinutesList data={minutes} />}
+              {view === 'dashboard' && (
+                <DashboardView
+                  onSelectInspection={(id) => openDetail({ id }, 'inspections')}
+                  onSelectMinute={(id) => openDetail({ id }, 'minutes')}
+                  onOpenNotification={openNotification}
+                />
+              )}
+              {view === 'schedule' && <ScheduleView can={can} onOpen={(type, id) => openDetail({ id }, type)} />}
+              {view === 'projects' && (selectedProjectId
+                ? <ProjectTimeline
+                    projectId={selectedProjectId}
+                    onBack={() => setSelectedProjectId(null)}
+                    onEdit={can('projects', 'update') ? (project) => openDetail(project, 'projects') : undefined}
+                    onSelectItem={(item) => openDetail(item, item.type)}
+                  />
+                : <ProjectsList data={projects} onSelect={(project) => setSelectedProjectId(project.id)} />
+              )}
+              {view === 'clients' && (selectedClientId
+                ? <ClientDetail
+                    clientId={selectedClientId}
+                    onBack={() => setSelectedClientId(null)}
+                    onEdit={can('clients', 'update') ? (client) => openDetail(client, 'clients') : undefined}
+                    onSelectEstimate={(id) => openDetail({ id }, 'estimates')}
+                    onSelectMinute={(id) => openDetail({ id }, 'minutes')}
+                  />
+                : <ClientsList data={clients} onSelect={(client) => setSelectedClientId(client.id)} />
+              )}
+              {isListView(view) && (
+                <ListToolbar
+                  key={view}
+                  view={view}
+                  filters={filters}
+                  projects={projects}
+                  canImport={can(view, 'create')}
+                  onChange={(next) => setFiltersByView({ ...filtersByView, [view]: next })}
+                  onImported={() => fetchData()}
+                />
+              )}
+              {view === 'inspections' && (
+                <InspectionsList
+                  data={inspections}
+                  pending={pendingChanges.filter(c => c.resource === 'inspections')}
+                  projects={projects}
+                  onSelect={openDetail}
+                  onSelectQueued={(change) => change.status === 'conflict' ? setConflict(change) : openQueuedCreate(change)}
+                />
+              )}
+              {view === 'trip-reports' && <TripReportsList data={tripReports} onSelect={openDetail} />}
+              {view === 'estimates' && <EstimatesList data={estimates} onSelect={openDetail} />}
+              {view === 'minutes' && <MinutesList data={minutes} onSelect={openDetail} />}
+              {isListView(view) && nextCursor && (
+                <div className="flex justify-center mt-8">
+                  <Button variant="secondary" onClick={() => fetchData(nextCursor)}>さらに読み込む</Button>
+                </div>
+              )}
+              {view === 'tasks' && <MyTasksView onOpenMinute={(id) => openDetail({ id }, 'minutes')} />}
+              {view === 'expenses' && (
+                <ExpensesView
+                  canPay={can('expense-payments', 'update')}
+                  onSelectTrip={(id) => openDetail({ id }, 'trip-reports')}
+                />
+              )}
+              {view === 'users' && <UsersList data={users} currentUserId={user.id} onSelect={openDetail} />}
+              {view === 'audit' && <AuditLogView onOpen={(type, id) => openDetail({ id }, type)} />}
             </motion.div>
           </AnimatePresence>
         </div>
@@ -377,99 +1111,188 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setIsModalOpen(false)}
+              onClick={closeModal}
               className="absolute inset-0 bg-zinc-900/40 backdrop-blur-sm"
             />
             <motion.div
               initial={{ opacity: 0, scale: 0.95, y: 20 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.95, y: 20 }}
-              className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+              className={cn(
+                "relative w-full bg-white rounded-3xl shadow-2xl overflow-hidden max-h-[90vh] overflow-y-auto",
+                view === 'estimates' || view === 'trip-reports' || view === 'clients' ? 'max-w-4xl' : 'max-w-2xl'
+              )}
             >
               <div className="p-8">
                 <div className="flex items-center justify-between mb-8">
-                  <h3 className="text-2xl font-bold">新規{
-                    view === 'inspections' ? '現場点検記録' :
-                    view === 'trip-reports' ? '出張報告' :
-                    view === 'estimates' ? '見積もり' : '打ち合わせ議事録'
-                  }</h3>
-                  <button onClick={() => setIsModalOpen(false)} className="p-2 hover:bg-zinc-100 rounded-full transition-colors">
+                  <h3 className="text-2xl font-bold">{editing ? `${viewTitles[view]}の詳細` : `新規${viewTitles[view]}`}</h3>
+                  <button onClick={closeModal} className="p-2 hover:bg-zinc-100 rounded-full transition-colors">
                     <X size={24} />
                   </button>
                 </div>
                 
-                <form onSubmit={async (e) => {
+                {canSave && user.ai_drafting && (view === 'minutes' || view === 'inspections' || view === 'estimates') && (
+                  <AiDraftPanel
+                    view={view}
+                    projects={projects}
+                    getForm={() => formRef.current}
+                    onDraft={(values) => setDraft({ version: (draft?.version ?? 0) + 1, values: { ...editing, ...values } })}
+                  />
+                )}
+
+                <form ref={formRef} key={`${editing?.id ?? 'new'}-${draft?.version ?? 0}`} onSubmit={async (e) => {
                   e.preventDefault();
-                  const formData = new FormData(e.currentTarget);
-                  const data = Object.fromEntries(formData.entries());
-                  
-                  const endpoint = `/api/${view}`;
-                  const res = await fetch(endpoint, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(data)
-                  });
+                  const form = e.currentTarget;
+                  const data = readForm(form);
+
+                  // Inspections are kept on the device when there is no connection and uploaded on reconnect
+                  const worksOffline = OFFLINE_RESOURCES.includes(view);
+                  const saveOffline = async () => {
+                    if (queued) {
+                      await editChange(queued, data);
+                    } else {
+                      await queueChange({
+                        user_id: user.id,
+                        resource: view as OfflineResource,
+                        record_id: editing?.id ?? null,
+                        version: (editing as Inspection | null)?.version ?? null,
+                        body: data,
+                      });
+                    }
+                    closeModal();
+                  };
+                  if (worksOffline && (queued || !navigator.onLine)) {
+                    await saveOffline();
+                    if (navigator.onLine) syncNow();
+                    return;
+                  }
+
+                  const endpoint = editing ? `/api/${view}/${editing.id}` : `/api/${view}`;
+                  const version = (editing as Inspection | null)?.version;
+                  let res: Response;
+                  try {
+                    res = await fetch(endpoint, {
+                      method: editing ? 'PUT' : 'POST',
+                      headers: { 'Content-Type': 'application/json', ...(version !== undefined ? { 'If-Match': String(version) } : {}) },
+                      body: JSON.stringify(data)
+                    });
+                  } catch (e) {
+                    console.error(e);
+                    if (worksOffline) {
+                      await saveOffline();
+                    } else {
+                      alert('サーバーに接続できませんでした。通信状態を確認して、もう一度保存してください');
+                    }
+                    return;
+                  }
                   
                   if (res.ok) {
-                    setIsModalOpen(false);
+                    closeModal();
                     fetchData();
+                  } else {
+                    const { error, fields, current }: Partial<ValidationErrorBody> & { current?: RecordItem } = await res.json().catch(() => ({ error: res.statusText }));
+                    if (current) {
+                      if (confirm('ほかのユーザーがこの記録を更新しました。最新の内容を読み込みますか？（入力中の内容は破棄されます）')) {
+                        // A new draft version remounts the form with the server contents
+                        setEditing(current);
+                        setDraft({ version: (draft?.version ?? 0) + 1, values: current });
+                        setFormErrors(noFormErrors);
+                      }
+                    } else if (fields) {
+                      setFormErrors({ fields, unplaced: unplacedFieldErrors(form, fields) });
+                    } else {
+                      setFormErrors(noFormErrors);
+                      alert(`保存に失敗しました（${error}）`);
+                    }
                   }
                 }} className="space-y-6">
-                  {view === 'inspections' && (
-                    <>
-                      <Input label="プロジェクト名" name="project_name" required />
-                      <div className="grid grid-cols-2 gap-4">
-                        <Input label="点検日" name="date" type="date" required />
-                        <Input label="場所" name="location" required />
-                      </div>
-                      <TextArea label="点検内容・指摘事項" name="findings" required />
-                      <Select label="ステータス" name="status" options={[
-                        { value: 'pending', label: '対応待ち' },
-                        { value: 'completed', label: '完了' },
-                        { value: 'urgent', label: '至急' }
-                      ]} />
-                    </>
+                  <FieldErrorsContext.Provider value={formErrors.fields}>
+                    <fieldset disabled={!canSave} className="space-y-6">
+                      <RecordFormFields view={view} record={(draft?.values as RecordItem | undefined) ?? editing} projects={projects} clients={clients} />
+                    </fieldset>
+                  </FieldErrorsContext.Provider>
+                  {formErrors.unplaced.length > 0 && (
+                    <div className="p-4 bg-red-50 border border-red-100 rounded-2xl text-sm text-red-600 space-y-1">
+                      {formErrors.unplaced.map((message, i) => <p key={i}>{message}</p>)}
+                    </div>
+                  )}
+
+                  {editing && view === 'estimates' && (
+                    <StatusWorkflow
+                      endpoint={`/api/estimates/${editing.id}/transitions`}
+                      status={(editing as Estimate).status}
+                      history={(editing as Estimate).history ?? []}
+                      labels={ESTIMATE_STATUS_LABELS}
+                      styles={estimateStatusStyles}
+                      transitions={ESTIMATE_TRANSITIONS
+                        .filter(t => t.from === (editing as Estimate).status && can('estimates', t.action))
+                        // Approvers cannot sign off estimates they submitted (admins can, as with trip reports)
+                        .filter(t => t.to !== 'approved' || (editing as Estimate).history?.filter(h => h.to_status === 'submitted').pop()?.user_id !== user.id || user.role === 'admin')
+                        .map(t => ({ ...t, danger: t.to === 'draft' || t.to === 'rejected' }))}
+                      onChange={(estimate) => { setEditing(estimate); fetchData(); }}
+                    />
+                  )}
+                  {editing && view === 'trip-reports' && (
+                    <StatusWorkflow
+                      endpoint={`/api/trip-reports/${editing.id}/transitions`}
+                      status={(editing as TripReport).status}
+                      history={(editing as TripReport).history ?? []}
+                      labels={TRIP_REPORT_STATUS_LABELS}
+                      styles={tripReportStatusStyles}
+                      transitions={TRIP_REPORT_TRANSITIONS
+                        .filter(t => t.from === (editing as TripReport).status && can(t.resource, t.action))
+                        // Approvers cannot sign off their own expenses
+                        .filter(t => t.to !== 'approved' || (editing as TripReport).user_id !== user.id || user.role === 'admin')
+                        .map(t => ({ ...t, danger: t.to === 'draft' }))}
+                      commentPlaceholder="コメント（差戻し時は必須）"
+                      onChange={(trip) => { setEditing(trip); fetchData(); }}
+                    />
                   )}
-                  {view === 'trip-reports' && (
-                    <>
-                      <Input label="目的地" name="destination" required />
-                      <div className="grid grid-cols-2 gap-4">
-                        <Input label="開始日" name="date_start" type="date" required />
-                        <Input label="終了日" name="date_end" type="date" required />
-                      </div>
-                      <Input label="目的" name="purpose" required />
-                      <TextArea label="結果・成果" name="results" required />
-                      <Input label="経費 (円)" name="expenses" type="number" required />
-                    </>
+                  {editing && (view === 'inspections' || view === 'minutes' || view === 'trip-reports') && (
+                    <AttachmentGallery resource={view} recordId={editing.id} canEdit={can(view, 'update')} />
                   )}
-                  {view === 'estimates' && (
-                    <>
-                      <Input label="顧客名" name="client_name" required />
-                      <Input label="プロジェクト名" name="project_name" required />
-                      <Input label="金額 (円)" name="amount" type="number" required />
-                      <TextArea label="詳細・内訳" name="details" required />
-                      <Select label="ステータス" name="status" options={[
-                        { value: 'draft', label: '下書き' },
-                        { value: 'sent', label: '送付済み' },
-                        { value: 'approved', label: '承認' },
-                        { value: 'rejected', label: '却下' }
-                      ]} />
-                    </>
+                  {editing && view === 'inspections' && can('corrective-actions', 'read') && (
+                    <CorrectiveActions
+                      inspection={editing as Inspection}
+                      userId={user.id}
+                      can={can}
+                      onChange={() => { fetchData(); openDetail(editing, 'inspections'); }}
+                    />
                   )}
-                  {view === 'minutes' && (
-                    <>
-                      <Input label="会議タイトル" name="title" required />
-                      <Input label="開催日" name="date" type="date" required />
-                      <Input label="出席者" name="attendees" placeholder="氏名をカンマ区切りで入力" required />
-                      <TextArea label="会議内容" name="content" required />
-                      <TextArea label="アクションアイテム" name="action_items" required />
-                    </>
+                  {editing && view === 'estimates' && (
+                    <EstimateRevisions
+                      estimate={editing as Estimate}
+                      canRevise={can('estimates', 'create')}
+                      onOpen={(id) => { fetchData(); openDetail({ id }, 'estimates'); }}
+                    />
                   )}
-                  {view === 'dashboard' && <p className="text-zinc-500">ダッシュボードからは作成できません。各メニューから作成してください。</p>}
 
-                  <div className="flex justify-end gap-3 pt-4">
-                    <Button variant="secondary" onClick={() => setIsModalOpen(false)}>キャンセル</Button>
-                    <Button type="submit">保存する</Button>
+                  {queued && (
+                    <div className="flex items-center gap-2 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-sm text-amber-700">
+                      <CloudOff size={16} className="shrink-0" />
+                      この端末に未同期の変更があります。保存した内容は接続が戻ったときに送信されます。
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-3 pt-4">
+                    {queued && (
+                      <Button variant="secondary" onClick={discardQueued}>未同期の変更を破棄</Button>
+                    )}
+                    {editing && can(view, 'delete') && (
+                      <Button variant="danger" onClick={handleDelete}>
+                        <Trash2 size={18} />
+                        削除
+                      </Button>
+                    )}
+                    {editing && view === 'estimates' && (
+                      <Button variant="secondary" onClick={() => window.open(`/api/estimates/${editing.id}/pdf`, '_blank')}>
+                        <FileDown size={18} />
+                        御見積書PDF
+                      </Button>
+                    )}
+                    <div className="flex-1" />
+                    <Button variant="secondary" onClick={closeModal}>{canSave ? 'キャンセル' : '閉じる'}</Button>
+                    {canSave && <Button type="submit">保存する</Button>}
                   </div>
                 </form>
               </div>
@@ -477,12 +1300,169 @@ export default function App() {
           </div>
         )}
       </AnimatePresence>
+
+      {conflict && (
+        <ConflictDialog change={conflict} projects={projects} onClose={() => setConflict(null)} onSync={syncNow} />
+      )}
+
+      {/* Password Modal */}
+      <AnimatePresence>
+        {isPasswordOpen && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsPasswordOpen(false)}
+              className="absolute inset-0 bg-zinc-900/40 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl overflow-hidden p-8"
+            >
+              <h3 className="text-2xl font-bold mb-8">パスワード変更</h3>
+              <ChangePasswordForm
+                onDone={() => { setIsPasswordOpen(false); alert('パスワードを変更しました'); }}
+                onCancel={() => setIsPasswordOpen(false)}
+              />
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
 
 // --- Sub-Views ---
 
+// Shared by the create modal and the detail/edit modal; `record` pre-fills the fields when editing.
+function RecordFormFields({ view, record, projects, clients }: { view: View; record: RecordItem | null; projects: Project[]; clients: Client[] }) {
+  const value = (key: string) => (record as Record<string, any> | null)?.[key] ?? undefined;
+  const projectSelect = (
+    <Select label="プロジェクト" name="project_id" defaultValue={value('project_id')} options={[
+      { value: '', label: '（未設定）' },
+      ...projects.map(p => ({ value: String(p.id), label: `${p.code} ${p.name}` }))
+    ]} />
+  );
+
+  return (
+    <>
+      {view === 'projects' && (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <Input label="工事コード" name="code" placeholder="自動採番" defaultValue={value('code')} />
+            <div className="col-span-2">
+              <Input label="プロジェクト名" name="name" defaultValue={value('name')} required />
+            </div>
+          </div>
+          <Input label="発注者" name="client" defaultValue={value('client')} />
+          <Input label="現場住所" name="site_address" defaultValue={value('site_address')} />
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="着工日" name="start_date" type="date" defaultValue={value('start_date')} />
+            <Input label="竣工予定日" name="end_date" type="date" defaultValue={value('end_date')} />
+          </div>
+          <Select label="ステータス" name="status" defaultValue={value('status') ?? 'active'} options={
+            (Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(status => ({ value: status, label: PROJECT_STATUS_LABELS[status] }))
+          } />
+        </>
+      )}
+      {view === 'clients' && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="正式名称" name="name" placeholder="株式会社〇〇建設" defaultValue={value('name')} required />
+            <Input label="フリガナ" name="name_kana" defaultValue={value('name_kana')} />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <Input label="郵便番号" name="postal_code" placeholder="123-4567" defaultValue={value('postal_code')} />
+            <div className="col-span-2">
+              <Input label="住所" name="address" defaultValue={value('address')} />
+            </div>
+          </div>
+          <Input label="電話番号" name="phone" type="tel" defaultValue={value('phone')} />
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="請求先名" name="billing_name" placeholder="本社と異なる場合" defaultValue={value('billing_name')} />
+            <Input label="請求先住所" name="billing_address" defaultValue={value('billing_address')} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="インボイス登録番号" name="invoice_number" placeholder="T1234567890123" defaultValue={value('invoice_number')} />
+            <Input label="支払条件" name="payment_terms" placeholder="月末締め翌月末払い" defaultValue={value('payment_terms')} />
+          </div>
+          <ClientContactsEditor client={record as Client | null} />
+          <TextArea label="備考" name="notes" defaultValue={value('notes')} />
+        </>
+      )}
+      {view === 'inspections' && (
+        <>
+          {projectSelect}
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="点検日" name="date" type="date" defaultValue={value('date')} required />
+            <Input label="場所" name="location" defaultValue={value('location')} required />
+          </div>
+          <TextArea label="点検内容・所見" name="findings" defaultValue={value('findings')} />
+          <InspectionChecklistFields inspection={record as Inspection | null} />
+        </>
+      )}
+      {view === 'trip-reports' && (
+        <>
+          {projectSelect}
+          <Input label="目的地" name="destination" defaultValue={value('destination')} required />
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="開始日" name="date_start" type="date" defaultValue={value('date_start')} required />
+            <Input label="終了日" name="date_end" type="date" defaultValue={value('date_end')} required />
+          </div>
+          <Input label="目的" name="purpose" defaultValue={value('purpose')} required />
+          <TextArea label="結果・成果" name="results" defaultValue={value('results')} required />
+          <TripExpenseItemsEditor trip={record as TripReport | null} />
+        </>
+      )}
+      {view === 'estimates' && (
+        <>
+          <EstimateClientFields estimate={record as Estimate | null} clients={clients} />
+          {projectSelect}
+          <Input label="有効期限" name="valid_until" type="date" defaultValue={value('valid_until')} />
+          <LineItemsEditor estimate={record as Estimate | null} />
+          <TextArea label="備考・条件" name="details" defaultValue={value('details')} />
+        </>
+      )}
+      {view === 'minutes' && (
+        <>
+          {projectSelect}
+          <Input label="会議タイトル" name="title" defaultValue={value('title')} required />
+          <Input label="開催日" name="date" type="date" defaultValue={value('date')} required />
+          <MinuteParticipantsField minute={record as Minute | null} />
+          <TextArea label="会議内容" name="content" defaultValue={value('content')} required />
+          <MinuteTasksField minute={record as Minute | null} />
+        </>
+      )}
+      {view === 'users' && (
+        <>
+          <Input label="ユーザー名" name="username" defaultValue={value('username')} readOnly={!!record} required />
+          <Input label="メールアドレス（通知の送信先）" name="email" type="email" defaultValue={value('email')} />
+          <Select label="ロール" name="role" defaultValue={value('role') ?? 'viewer'} options={
+            (Object.keys(ROLE_LABELS) as Role[]).map(role => ({ value: role, label: ROLE_LABELS[role] }))
+          } />
+          {record && (
+            <Select label="アカウント状態" name="active" defaultValue={String(value('active'))} options={[
+              { value: '1', label: '有効' },
+              { value: '0', label: '無効' }
+            ]} />
+          )}
+          <Input
+            label={record ? '仮パスワードを再発行（変更時のみ）' : '仮パスワード'}
+            name="password"
+            type="password"
+            minLength={MIN_PASSWORD_LENGTH}
+            required={!record}
+          />
+        </>
+      )}
+      {view === 'dashboard' && <p className="text-zinc-500">ダッシュボードからは作成できません。各メニューから作成してください。</p>}
+    </>
+  );
+}
+
 function LoginView({ onLogin }: { onLogin: (e: React.FormEvent<HTMLFormElement>) => void }) {
   return (
     <div className="min-h-screen flex items-center justify-center bg-zinc-50 p-4">
@@ -519,107 +1499,2036 @@ function LoginView({ onLogin }: { onLogin: (e: React.FormEvent<HTMLFormElement>)
   );
 }
 
-function NavItem({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active?: boolean, onClick: () => void }) {
-  return (
-    <button 
-      onClick={onClick}
-      className={cn(
-        "w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-semibold transition-all group",
-        active 
-          ? "bg-zinc-900 text-white shadow-lg shadow-zinc-900/10" 
-          : "text-zinc-500 hover:bg-zinc-100 hover:text-zinc-900"
-      )}
-    >
-      <span className={cn("transition-colors", active ? "text-white" : "text-zinc-400 group-hover:text-zinc-900")}>
-        {icon}
-      </span>
-      {label}
-    </button>
-  );
-}
+// Template picker and checklist grading. With a checklist or corrective actions the status is derived; otherwise it is chosen by hand.
+function InspectionChecklistFields({ inspection }: { inspection: Inspection | null }) {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(inspection?.template_id ? String(inspection.template_id) : '');
+  const [rows, setRows] = useState<(ChecklistItemInput & { id?: number })[]>(inspection?.checklist ?? []);
+  const derivedStatus = rollUpInspectionStatus(rows, inspection?.corrective_actions ?? [], localToday());
+
+  useEffect(() => {
+    fetch('/api/checklist-templates')
+      .then(res => res.ok ? res.json() : [])
+      .then(setTemplates)
+      .catch(console.error);
+  }, []);
+
+  const pickTemplate = (id: string) => {
+    const template = templates.find(t => String(t.id) === id);
+    if (rows.some(r => r.result || r.comment) && !confirm('入力済みのチェック結果は破棄されます。よろしいですか？')) return;
+    setTemplateId(id);
+    setRows((template?.items ?? []).map(item => ({ ...item, section: item.section ?? '', result: null, comment: '' })));
+  };
+
+  const updateRow = (index: number, patch: Partial<ChecklistItemInput>) =>
+    setRows(rows.map((row, i) => i === index ? { ...row, ...patch } : row));
+
+  const sections = [...new Set(rows.map(row => row.section))];
+
+  return (
+    <div className="space-y-4">
+      <input type="hidden" name="template_id" value={templateId} />
+      {rows.length > 0 && <input type="hidden" name="checklist" value={JSON.stringify(rows)} />}
+
+      {inspection?.id
+        ? templateId && <p className="text-sm text-zinc-500">テンプレート: <span className="font-semibold text-zinc-900">{templates.find(t => String(t.id) === templateId)?.name ?? '—'}</span></p>
+        : <Select label="チェックリスト" value={templateId} onChange={e => pickTemplate(e.target.value)} options={[
+            { value: '', label: '（使用しない）' },
+            ...templates.map(t => ({ value: String(t.id), label: t.name }))
+          ]} />}
+
+      {sections.map(section => (
+        <div key={section} className="space-y-2">
+          <h5 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">{section || 'その他'}</h5>
+          {rows.map((row, index) => row.section !== section ? null : (
+            <div key={index} className="p-3 bg-zinc-50 rounded-xl border border-zinc-100 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm font-medium">
+                  {!!row.critical && <span className="mr-2 px-1.5 py-0.5 rounded bg-red-50 text-red-600 text-[10px] font-bold">重要</span>}
+                  {row.label}
+                </p>
+                <div className="flex gap-1 shrink-0">
+                  {(Object.keys(CHECKLIST_RESULT_LABELS) as ChecklistResult[]).map(result => (
+                    <button
+                      key={result}
+                      type="button"
+                      onClick={() => updateRow(index, { result: row.result === result ? null : result })}
+                      className={cn(
+                        "px-2.5 py-1 rounded-lg text-xs font-bold border transition-colors",
+                        row.result === result
+                          ? result === 'ok' ? 'bg-emerald-500 border-emerald-500 text-white'
+                            : result === 'ng' ? 'bg-red-500 border-red-500 text-white'
+                            : 'bg-zinc-500 border-zinc-500 text-white'
+                          : 'bg-white border-zinc-200 text-zinc-500 hover:border-zinc-400'
+                      )}
+                    >
+                      {CHECKLIST_RESULT_LABELS[result]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <input
+                value={row.comment ?? ''}
+                onChange={e => updateRow(index, { comment: e.target.value })}
+                placeholder="コメント"
+                className="w-full px-3 py-1.5 bg-white border border-zinc-200 rounded-lg text-sm focus:outline-none focus:border-zinc-900"
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {derivedStatus ? (
+        <div className="flex items-center gap-3">
+          <input type="hidden" name="status" value={derivedStatus} />
+          <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">ステータス（自動判定）</span>
+          <span className={cn(
+            "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+            derivedStatus === 'urgent' ? 'bg-red-50 text-red-600' :
+            derivedStatus === 'completed' ? 'bg-emerald-50 text-emerald-600' : 'bg-amber-50 text-amber-600'
+          )}>
+            {INSPECTION_STATUS_LABELS[derivedStatus]}
+          </span>
+        </div>
+      ) : (
+        <Select label="ステータス" name="status" defaultValue={inspection?.status} options={
+          (Object.keys(INSPECTION_STATUS_LABELS) as InspectionStatus[]).map(status => ({ value: status, label: INSPECTION_STATUS_LABELS[status] }))
+        } />
+      )}
+    </div>
+  );
+}
+
+// Active users for owner and assignee pickers
+function useUserOptions() {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  useEffect(() => {
+    fetch('/api/users/options')
+      .then(res => res.ok ? res.json() : [])
+      .then(setUsers)
+      .catch(console.error);
+  }, []);
+  return users;
+}
+
+// Attendees picked from users or entered as external contacts
+function MinuteParticipantsField({ minute }: { minute: Minute | null }) {
+  const users = useUserOptions();
+  const [participants, setParticipants] = useState<MinuteAttendee[]>(minute?.participants ?? []);
+  const [external, setExternal] = useState({ name: '', organization: '' });
+
+  const addUser = (id: string) => {
+    const picked = users.find(u => String(u.id) === id);
+    if (!picked || participants.some(p => p.user_id === picked.id)) return;
+    setParticipants([...participants, { user_id: picked.id, name: picked.username, organization: null }]);
+  };
+
+  const addExternal = () => {
+    if (!external.name.trim()) return;
+    setParticipants([...participants, { user_id: null, name: external.name.trim(), organization: external.organization.trim() || null }]);
+    setExternal({ name: '', organization: '' });
+  };
+
+  const fieldClass = "px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">出席者</label>
+      <input type="hidden" name="participants" value={JSON.stringify(participants)} />
+      <div className="flex flex-wrap gap-2">
+        {participants.map((p, index) => (
+          <span key={index} className={cn(
+            "inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full text-xs font-semibold",
+            p.user_id ? 'bg-zinc-900 text-white' : 'bg-zinc-100 text-zinc-700'
+          )}>
+            {p.name}{p.organization && <span className="font-normal opacity-70">（{p.organization}）</span>}
+            <button type="button" onClick={() => setParticipants(participants.filter((_, i) => i !== index))} className="p-0.5 rounded-full hover:bg-white/20">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {participants.length === 0 && <p className="text-sm text-zinc-400">出席者が登録されていません</p>}
+      </div>
+      <div className="grid grid-cols-12 gap-2">
+        <select value="" onChange={e => addUser(e.target.value)} className={cn(fieldClass, "col-span-4")}>
+          <option value="">社内メンバーを追加</option>
+          {users.filter(u => !participants.some(p => p.user_id === u.id)).map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+        </select>
+        <input value={external.name} onChange={e => setExternal({ ...external, name: e.target.value })} placeholder="社外出席者の氏名" className={cn(fieldClass, "col-span-3")} />
+        <input value={external.organization} onChange={e => setExternal({ ...external, organization: e.target.value })} placeholder="会社名" className={cn(fieldClass, "col-span-3")} />
+        <Button variant="secondary" className="col-span-2 text-xs" onClick={addExternal}>追加</Button>
+      </div>
+    </div>
+  );
+}
+
+const emptyActionItem = (): ActionItem => ({ description: '', owner_id: null, due_date: null, done: 0 });
+
+// Action items of a meeting, each with an owner, due date and done flag
+function MinuteTasksField({ minute }: { minute: Minute | null }) {
+  const users = useUserOptions();
+  const [tasks, setTasks] = useState<ActionItem[]>(minute?.tasks?.length ? minute.tasks : [emptyActionItem()]);
+  const today = localToday();
+
+  const updateTask = (index: number, patch: Partial<ActionItem>) =>
+    setTasks(tasks.map((task, i) => i === index ? { ...task, ...patch } : task));
+
+  const cellClass = "w-full px-2 py-1.5 bg-zinc-50 border border-zinc-200 rounded-lg text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">アクションアイテム</label>
+      <input type="hidden" name="tasks" value={JSON.stringify(tasks)} />
+      {tasks.map((task, index) => (
+        <div key={task.id ?? `new-${index}`} className="grid grid-cols-12 gap-2 items-center">
+          <input type="checkbox" checked={!!task.done} onChange={e => updateTask(index, { done: e.target.checked ? 1 : 0 })} className="col-span-1 justify-self-center" title="完了" />
+          <input className={cn(cellClass, "col-span-5", task.done && "line-through text-zinc-400")} placeholder="内容" value={task.description} onChange={e => updateTask(index, { description: e.target.value })} />
+          <select className={cn(cellClass, "col-span-3")} value={task.owner_id ?? ''} onChange={e => updateTask(index, { owner_id: Number(e.target.value) || null })}>
+            <option value="">担当者</option>
+            {users.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+          </select>
+          <input className={cn(cellClass, "col-span-2", !task.done && task.due_date && task.due_date < today && "border-red-300 text-red-600")} type="date" value={task.due_date ?? ''} onChange={e => updateTask(index, { due_date: e.target.value || null })} />
+          <button type="button" onClick={() => setTasks(tasks.filter((_, i) => i !== index))} className="col-span-1 p-1.5 text-zinc-400 hover:text-red-500 justify-self-center">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <Button variant="ghost" className="text-xs" onClick={() => setTasks([...tasks, emptyActionItem()])}>
+        <Plus size={14} />
+        行を追加
+      </Button>
+    </div>
+  );
+}
+
+// Picking a registered client prints its legal name on the estimate. A typed name is linked to the
+// registered client it matches when saved, so 「山田建設(株)」 lands on 株式会社山田建設.
+function EstimateClientFields({ estimate, clients }: { estimate: Estimate | null; clients: Client[] }) {
+  const [clientId, setClientId] = useState(estimate?.client_id ? String(estimate.client_id) : '');
+  const selected = clients.find(c => String(c.id) === clientId);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <Select label="顧客" name="client_id" value={clientId} onChange={e => setClientId(e.target.value)} options={[
+        { value: '', label: '（顧客マスタ未登録）' },
+        ...clients.map(c => ({ value: String(c.id), label: c.name }))
+      ]} />
+      {clientId
+        ? <Input label="顧客名" value={selected?.name ?? estimate?.client_name ?? ''} readOnly />
+        : <Input label="顧客名" name="client_name" defaultValue={estimate?.client_name ?? undefined} required />}
+    </div>
+  );
+}
+
+const aiDraftLabels = {
+  minutes: { button: 'メモから議事録を下書き', placeholder: '会議中のメモを貼り付けてください（決定事項、宿題、担当者、期限など）' },
+  inspections: { button: '所見を不具合報告にまとめる', placeholder: '' },
+  estimates: { button: '工事概要から明細を提案', placeholder: '例：木造2階建て住宅の外壁塗装、延床120m²、足場架設を含む' },
+};
+
+// Asks the server for a draft and hands it over merged with what is already in the form; nothing is saved until
+// the user does. Minutes and estimates start from text typed here, inspections from the findings and flagged checklist rows.
+function AiDraftPanel({ view, projects, getForm, onDraft }: {
+  view: 'minutes' | 'inspections' | 'estimates';
+  projects: Project[];
+  getForm: () => HTMLFormElement | null;
+  onDraft: (values: Record<string, unknown>) => void;
+}) {
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [applied, setApplied] = useState(false);
+  const labels = aiDraftLabels[view];
+
+  const generate = async () => {
+    const form = getForm();
+    if (!form) return;
+    const current = readForm(form);
+    const projectName = projects.find(p => String(p.id) === current.project_id)?.name;
+    const request = {
+      minutes: { endpoint: '/api/ai/minutes', body: { notes: input, date: current.date } },
+      inspections: { endpoint: '/api/ai/inspection-summary', body: { findings: current.findings, location: current.location, project_name: projectName, checklist: current.checklist } },
+      estimates: { endpoint: '/api/ai/estimate-items', body: { description: input, project_name: projectName } },
+    }[view];
+
+    setIsBusy(true);
+    try {
+      const res = await fetch(request.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request.body)
+      });
+      const answer = await res.json().catch(() => ({ error: res.statusText }));
+      if (!res.ok) {
+        const { error, fields }: Partial<ValidationErrorBody> = answer;
+        alert(`下書きを作成できませんでした（${fields ? Object.values(fields).join('、') : error}）`);
+        return;
+      }
+      // Rows and text the user already entered are kept; the draft is added after them
+      if (view === 'minutes') {
+        onDraft({
+          ...current,
+          title: current.title || answer.title,
+          content: [current.content, answer.content].filter(Boolean).join('\n\n'),
+          tasks: [...((current.tasks ?? []) as ActionItem[]).filter(task => task.description.trim()), ...answer.tasks],
+        });
+      } else if (view === 'inspections') {
+        onDraft({ ...current, findings: answer.report });
+      } else {
+        onDraft({ ...current, items: [...((current.items ?? []) as EstimateItem[]).filter(item => item.name.trim()), ...answer.items] });
+      }
+      setApplied(true);
+      setIsOpen(false);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-violet-50/60 border border-violet-100 rounded-2xl space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-violet-900 flex items-center gap-2">
+          <Sparkles size={16} />
+          {applied ? 'AIの下書きを反映しました。内容を確認・修正してから保存してください。' : 'AIで下書きを作成できます'}
+        </p>
+        {view === 'inspections'
+          ? <Button variant="secondary" className="text-xs shrink-0" disabled={isBusy} onClick={generate}>{isBusy ? '作成中...' : labels.button}</Button>
+          : !isOpen && <Button variant="secondary" className="text-xs shrink-0" onClick={() => setIsOpen(true)}>{labels.button}</Button>}
+      </div>
+      {isOpen && (
+        <>
+          <textarea
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder={labels.placeholder}
+            className="w-full px-4 py-2.5 bg-white border border-violet-100 rounded-xl text-sm focus:outline-none focus:border-violet-400 min-h-[120px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" className="text-xs" onClick={() => setIsOpen(false)}>閉じる</Button>
+            <Button className="text-xs" disabled={isBusy || !input.trim()} onClick={generate}>{isBusy ? '作成中...' : '下書きを作成'}</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const emptyContact = (): ClientContact => ({ name: '', department: '', title: '', phone: '', email: '' });
+
+// People to deal with at a client, e.g. the site manager and the person who receives invoices
+function ClientContactsEditor({ client }: { client: Client | null }) {
+  const [contacts, setContacts] = useState<ClientContact[]>(client?.contacts?.length ? client.contacts : [emptyContact()]);
+
+  const updateContact = (index: number, patch: Partial<ClientContact>) =>
+    setContacts(contacts.map((contact, i) => i === index ? { ...contact, ...patch } : contact));
+
+  const cellClass = "w-full px-2 py-1.5 bg-zinc-50 border border-zinc-200 rounded-lg text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">担当者</label>
+      <input type="hidden" name="contacts" value={JSON.stringify(contacts)} />
+      {contacts.map((contact, index) => (
+        <div key={contact.id ?? `new-${index}`} className="grid grid-cols-12 gap-2 items-center">
+          <input className={cn(cellClass, "col-span-2")} placeholder="氏名" value={contact.name ?? ''} onChange={e => updateContact(index, { name: e.target.value })} />
+          <input className={cn(cellClass, "col-span-2")} placeholder="部署" value={contact.department ?? ''} onChange={e => updateContact(index, { department: e.target.value })} />
+          <input className={cn(cellClass, "col-span-2")} placeholder="役職" value={contact.title ?? ''} onChange={e => updateContact(index, { title: e.target.value })} />
+          <input className={cn(cellClass, "col-span-2")} type="tel" placeholder="電話番号" value={contact.phone ?? ''} onChange={e => updateContact(index, { phone: e.target.value })} />
+          <input className={cn(cellClass, "col-span-3")} type="email" placeholder="メールアドレス" value={contact.email ?? ''} onChange={e => updateContact(index, { email: e.target.value })} />
+          <button type="button" onClick={() => setContacts(contacts.filter((_, i) => i !== index))} className="col-span-1 p-1.5 text-zinc-400 hover:text-red-500 justify-self-center">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <Button variant="ghost" className="text-xs" onClick={() => setContacts([...contacts, emptyContact()])}>
+        <Plus size={14} />
+        担当者を追加
+      </Button>
+    </div>
+  );
+}
+
+const emptyLineItem = (): EstimateItem => ({ category: '', name: '', spec: '', quantity: 1, unit: '式', unit_price: 0 });
+
+// Bill of items for an estimate. Totals are previewed with the same arithmetic the server stores.
+function LineItemsEditor({ estimate }: { estimate: Estimate | null }) {
+  const [items, setItems] = useState<EstimateItem[]>(estimate?.items?.length ? estimate.items : [emptyLineItem()]);
+  const [discount, setDiscount] = useState(estimate?.discount ?? 0);
+  const [taxPercent, setTaxPercent] = useState(Math.round((estimate?.tax_rate ?? DEFAULT_TAX_RATE) * 1000) / 10);
+  const totals = computeEstimateTotals(items, discount, taxPercent / 100);
+
+  const updateItem = (index: number, patch: Partial<EstimateItem>) =>
+    setItems(items.map((item, i) => i === index ? { ...item, ...patch } : item));
+
+  const cellClass = "w-full px-2 py-1.5 bg-zinc-50 border border-zinc-200 rounded-lg text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">内訳明細</label>
+      <input type="hidden" name="items" value={JSON.stringify(items)} />
+      <input type="hidden" name="discount" value={discount} />
+      <input type="hidden" name="tax_rate" value={taxPercent / 100} />
+      <datalist id="estimate-units">{ESTIMATE_UNITS.map(u => <option key={u} value={u} />)}</datalist>
+      <datalist id="estimate-categories">{ESTIMATE_CATEGORIES.map(c => <option key={c} value={c} />)}</datalist>
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input className={cn(cellClass, "col-span-2")} list="estimate-categories" placeholder="区分" value={item.category} onChange={e => updateItem(index, { category: e.target.value })} />
+            <input className={cn(cellClass, "col-span-3")} placeholder="品名" value={item.name} onChange={e => updateItem(index, { name: e.target.value })} />
+            <input className={cn(cellClass, "col-span-2")} placeholder="仕様" value={item.spec} onChange={e => updateItem(index, { spec: e.target.value })} />
+            <input className={cn(cellClass, "col-span-1 text-right")} type="number" step="any" min="0" value={item.quantity} onChange={e => updateItem(index, { quantity: Number(e.target.value) })} />
+            <input className={cn(cellClass, "col-span-1")} list="estimate-units" value={item.unit} onChange={e => updateItem(index, { unit: e.target.value })} />
+            <input className={cn(cellClass, "col-span-1 text-right")} type="number" min="0" placeholder="単価" value={item.unit_price} onChange={e => updateItem(index, { unit_price: Number(e.target.value) })} />
+            <p className="col-span-1 text-right text-sm font-semibold">¥{lineSubtotal(item).toLocaleString()}</p>
+            <button type="button" onClick={() => setItems(items.filter((_, i) => i !== index))} className="col-span-1 p-1.5 text-zinc-400 hover:text-red-500 justify-self-center">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <Button variant="ghost" className="text-xs" onClick={() => setItems([...items, emptyLineItem()])}>
+        <Plus size={14} />
+        行を追加
+      </Button>
+
+      <div className="ml-auto w-72 space-y-2 text-sm">
+        <div className="flex justify-between"><span className="text-zinc-500">小計</span><span className="font-semibold">¥{totals.subtotal.toLocaleString()}</span></div>
+        <div className="flex justify-between items-center gap-4">
+          <span className="text-zinc-500">値引き</span>
+          <input className={cn(cellClass, "w-32 text-right")} type="number" min="0" value={discount} onChange={e => setDiscount(Number(e.target.value))} />
+        </div>
+        <div className="flex justify-between items-center gap-4">
+          <span className="text-zinc-500">消費税率 (%)</span>
+          <input className={cn(cellClass, "w-32 text-right")} type="number" min="0" step="0.1" value={taxPercent} onChange={e => setTaxPercent(Number(e.target.value))} />
+        </div>
+        <div className="flex justify-between"><span className="text-zinc-500">消費税</span><span className="font-semibold">¥{totals.tax.toLocaleString()}</span></div>
+        <div className="flex justify-between pt-2 border-t border-zinc-200"><span className="font-bold">合計金額</span><span className="text-lg font-bold">¥{totals.amount.toLocaleString()}</span></div>
+      </div>
+    </div>
+  );
+}
+
+const emptyExpenseItem = (date: string | null = null): TripExpenseItem =>
+  ({ category: 'transport', date, description: '', amount: 0, payment_method: 'cash', receipt_attachment_id: null });
+
+// Expense lines of a trip report. Receipts are uploaded as attachments of the report and linked to their line.
+function TripExpenseItemsEditor({ trip }: { trip: TripReport | null }) {
+  const [items, setItems] = useState<TripExpenseItem[]>(trip?.items?.length ? trip.items : [emptyExpenseItem(trip?.date_start)]);
+  const [uploading, setUploading] = useState<number | null>(null);
+  const total = tripExpenseTotal(items);
+  const companyCard = tripExpenseTotal(items.filter(item => item.payment_method === 'company_card'));
+
+  const updateItem = (index: number, patch: Partial<TripExpenseItem>) =>
+    setItems(previous => previous.map((item, i) => i === index ? { ...item, ...patch } : item));
+
+  const uploadReceipt = async (index: number, file: File) => {
+    const body = new FormData();
+    body.append('files', file);
+    body.append('point', '領収書');
+    body.append('caption', [EXPENSE_CATEGORY_LABELS[items[index].category], items[index].description].filter(Boolean).join(' '));
+    setUploading(index);
+    try {
+      const res = await fetch(`/api/trip-reports/${trip!.id}/attachments`, { method: 'POST', body });
+      if (res.ok) {
+        const { ids } = await res.json();
+        updateItem(index, { receipt_attachment_id: ids[0], receipt_name: file.name });
+      } else {
+        alert('アップロードに失敗しました');
+      }
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const cellClass = "w-full px-2 py-1.5 bg-zinc-50 border border-zinc-200 rounded-lg text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">経費明細</label>
+      <input type="hidden" name="items" value={JSON.stringify(items)} />
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <select className={cn(cellClass, "col-span-2")} value={item.category} onChange={e => updateItem(index, { category: e.target.value as ExpenseCategory })}>
+              {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(c => <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>)}
+            </select>
+            <input className={cn(cellClass, "col-span-2")} type="date" value={item.date ?? ''} onChange={e => updateItem(index, { date: e.target.value || null })} />
+            <input className={cn(cellClass, "col-span-3")} placeholder="内容（区間・宿泊先など）" value={item.description ?? ''} onChange={e => updateItem(index, { description: e.target.value })} />
+            <select className={cn(cellClass, "col-span-2")} value={item.payment_method ?? ''} onChange={e => updateItem(index, { payment_method: (e.target.value || null) as PaymentMethod | null })}>
+              <option value="">支払方法</option>
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+            </select>
+            <input className={cn(cellClass, "col-span-2 text-right")} type="number" min="0" placeholder="金額" value={item.amount} onChange={e => updateItem(index, { amount: Number(e.target.value) })} />
+            <div className="col-span-1 flex items-center justify-center gap-1">
+              {item.receipt_attachment_id ? (
+                <a href={`/api/attachments/${item.receipt_attachment_id}/file`} target="_blank" rel="noreferrer" title={item.receipt_name ?? '領収書'} className="p-1.5 text-emerald-600 hover:text-emerald-700">
+                  <Receipt size={16} />
+                </a>
+              ) : (
+                <label
+                  title={trip ? '領収書を添付' : '保存後に領収書を添付できます'}
+                  className={cn("p-1.5", trip ? "text-zinc-400 hover:text-zinc-900 cursor-pointer" : "text-zinc-200", uploading === index && "animate-pulse")}
+                >
+                  <Paperclip size={16} />
+                  <input type="file" accept="image/*,application/pdf" capture="environment" className="hidden" disabled={!trip || uploading !== null}
+                    onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) uploadReceipt(index, file); }} />
+                </label>
+              )}
+              <button type="button" onClick={() => setItems(items.filter((_, i) => i !== index))} className="p-1.5 text-zinc-400 hover:text-red-500">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <Button variant="ghost" className="text-xs" onClick={() => setItems([...items, emptyExpenseItem(items[items.length - 1]?.date ?? trip?.date_start)])}>
+        <Plus size={14} />
+        行を追加
+      </Button>
+
+      <div className="ml-auto w-72 space-y-2 text-sm">
+        {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(category => (
+          <div key={category} className="flex justify-between">
+            <span className="text-zinc-500">{EXPENSE_CATEGORY_LABELS[category]}</span>
+            <span className="font-semibold">{yen(tripExpenseTotal(items.filter(item => item.category === category)))}</span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2 border-t border-zinc-200"><span className="font-bold">経費合計</span><span className="text-lg font-bold">{yen(total)}</span></div>
+        <div className="flex justify-between text-xs"><span className="text-zinc-500">うち立替精算額</span><span className="font-semibold">{yen(total - companyCard)}</span></div>
+      </div>
+    </div>
+  );
+}
+
+// Status actions available to the current role, plus the full transition history
+function StatusWorkflow<S extends string>({ endpoint, status, history, labels, styles, transitions, commentPlaceholder = 'コメント（任意）', onChange }: {
+  endpoint: string;
+  status: S;
+  history: StatusChange<S>[];
+  labels: Record<S, string>;
+  styles: Record<S, string>;
+  // Transitions out of `status` the current role may take
+  transitions: { to: S; label: string; danger?: boolean }[];
+  commentPlaceholder?: string;
+  onChange: (record: { id: number; status: S; history: StatusChange<S>[] }) => void;
+}) {
+  const [comment, setComment] = useState('');
+
+  const transition = async (to: S) => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: to, comment })
+    });
+    if (res.ok) {
+      setComment('');
+      onChange(await res.json());
+    } else {
+      const { error } = await res.json();
+      alert(`ステータスを変更できませんでした（${error}）`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-zinc-100">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">承認ワークフロー</h4>
+        <span className={cn("px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider", styles[status])}>
+          {labels[status] ?? status}
+        </span>
+      </div>
+
+      {transitions.length > 0 && (
+        <div className="space-y-3">
+          <input
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            placeholder={commentPlaceholder}
+            className="w-full px-4 py-2.5 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900"
+          />
+          <div className="flex flex-wrap gap-2">
+            {transitions.map(t => (
+              <Button key={t.to} variant={t.danger ? 'danger' : 'secondary'} onClick={() => transition(t.to)}>
+                {t.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {history.map(h => (
+          <li key={h.id} className="flex gap-3 text-sm">
+            <div className="w-2 h-2 mt-1.5 rounded-full bg-zinc-300 shrink-0" />
+            <div>
+              <p className="font-semibold">
+                {h.from_status ? `${labels[h.from_status]} → ` : ''}{labels[h.to_status] ?? h.to_status}
+              </p>
+              <p className="text-xs text-zinc-400">{h.created_at} • {h.username ?? '—'}</p>
+              {h.comment && <p className="text-zinc-600 mt-1">{h.comment}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Photos and files attached to a record, with upload and per-photo caption / inspection point
+function AttachmentGallery({ resource, recordId, canEdit, title = '写真・添付ファイル' }: {
+  resource: View | 'corrective-actions';
+  recordId: number;
+  canEdit: boolean;
+  title?: string;
+}) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const [point, setPoint] = useState('');
+  const [caption, setCaption] = useState('');
+
+  const load = () => {
+    fetch(`/api/${resource}/${recordId}/attachments`)
+      .then(res => res.ok ? res.json() : [])
+      .then(setAttachments)
+      .catch(console.error);
+  };
+
+  useEffect(load, [resource, recordId]);
+
+  const uploadFiles = async () => {
+    const files = fileInput.current?.files;
+    if (!files || files.length === 0) return;
+    const body = new FormData();
+    Array.from<File>(files).forEach(file => body.append('files', file));
+    body.append('point', point);
+    body.append('caption', caption);
+    setUploading(true);
+    try {
+      const res = await fetch(`/api/${resource}/${recordId}/attachments`, { method: 'POST', body });
+      if (res.ok) {
+        fileInput.current!.value = '';
+        setPoint('');
+        setCaption('');
+        load();
+      } else {
+        alert('アップロードに失敗しました');
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const updateAttachment = async (attachment: Attachment, patch: Partial<Pick<Attachment, 'caption' | 'point'>>) => {
+    if ((Object.keys(patch) as ('caption' | 'point')[]).every(key => attachment[key] === patch[key])) return;
+    await fetch(`/api/attachments/${attachment.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch)
+    });
+    load();
+  };
+
+  const removeAttachment = async (attachment: Attachment) => {
+    if (!confirm(`「${attachment.original_name}」を削除しますか？`)) return;
+    await fetch(`/api/attachments/${attachment.id}`, { method: 'DELETE' });
+    load();
+  };
+
+  const smallInput = "w-full px-2 py-1 bg-transparent border border-transparent rounded-lg text-xs hover:border-zinc-200 focus:outline-none focus:border-zinc-900 focus:bg-white";
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-zinc-100">
+      <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">{title}</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {attachments.map(a => (
+          <div key={a.id} className="rounded-2xl border border-zinc-200 overflow-hidden bg-zinc-50">
+            <a href={`/api/attachments/${a.id}/file`} target="_blank" rel="noreferrer" className="block aspect-[4/3] bg-zinc-100">
+              {a.thumbnail
+                ? <img src={`/api/attachments/${a.id}/thumbnail`} alt={a.caption ?? a.original_name} className="w-full h-full object-cover" />
+                : <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-zinc-400 text-xs p-2 text-center">
+                    <Paperclip size={24} />
+                    {a.original_name}
+                  </div>}
+            </a>
+            <div className="p-2 space-y-1">
+              <input className={cn(smallInput, "font-semibold")} placeholder="撮影箇所" defaultValue={a.point ?? ''} disabled={!canEdit}
+                onBlur={e => updateAttachment(a, { point: e.target.value })} />
+              <input className={smallInput} placeholder="キャプション" defaultValue={a.caption ?? ''} disabled={!canEdit}
+                onBlur={e => updateAttachment(a, { caption: e.target.value })} />
+              {canEdit && (
+                <button type="button" onClick={() => removeAttachment(a)} className="text-[10px] font-semibold text-red-500 hover:text-red-600 px-2">
+                  削除
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {attachments.length === 0 && <p className="col-span-full text-sm text-zinc-400">添付ファイルはありません</p>}
+      </div>
+
+      {canEdit && (
+        <div className="p-4 bg-zinc-50 rounded-2xl border border-zinc-100 space-y-3">
+          <input ref={fileInput} type="file" multiple accept="image/*,application/pdf" className="text-sm" />
+          <div className="grid grid-cols-2 gap-3">
+            <input value={point} onChange={e => setPoint(e.target.value)} placeholder="撮影箇所（例: 3F 東側梁）"
+              className="px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900" />
+            <input value={caption} onChange={e => setCaption(e.target.value)} placeholder="キャプション"
+              className="px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900" />
+          </div>
+          <Button variant="secondary" onClick={uploadFiles} className="text-xs">
+            <ImagePlus size={16} />
+            {uploading ? 'アップロード中...' : 'アップロード'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Corrective actions raised from an inspection's findings: assignment, remediation report and inspector verification
+function CorrectiveActions({ inspection, userId, can, onChange }: {
+  inspection: Inspection;
+  userId: number;
+  can: (resource: string, action: Action) => boolean;
+  onChange: () => void;
+}) {
+  const users = useUserOptions();
+  const [draft, setDraft] = useState({ checklist_item_id: '', description: '', assignee_id: '', due_date: '' });
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const actions = inspection.corrective_actions ?? [];
+  const findings = (inspection.checklist ?? []).filter(item => item.result === 'ng' && item.id);
+  const today = localToday();
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (res.ok) {
+      onChange();
+      return true;
+    }
+    const { error } = await res.json().catch(() => ({ error: res.statusText }));
+    alert(`是正処置を更新できませんでした（${error}）`);
+    return false;
+  };
+
+  const create = async () => {
+    if (!draft.description.trim()) return alert('是正内容を入力してください');
+    if (await send(`/api/inspections/${inspection.id}/actions`, 'POST', draft)) {
+      setDraft({ checklist_item_id: '', description: '', assignee_id: '', due_date: '' });
+    }
+  };
+
+  const resolve = async (action: CorrectiveAction) => {
+    if (!notes[action.id]?.trim()) return alert('是正内容の報告を入力してください');
+    if (await send(`/api/corrective-actions/${action.id}/resolve`, 'POST', { remediation_note: notes[action.id] })) {
+      setNotes({ ...notes, [action.id]: '' });
+    }
+  };
+
+  const verify = async (action: CorrectiveAction, approved: boolean) => {
+    const comment = notes[action.id] ?? '';
+    if (!approved && !comment.trim()) return alert('差戻しの理由を入力してください');
+    if (await send(`/api/corrective-actions/${action.id}/verify`, 'POST', { approved, comment })) {
+      setNotes({ ...notes, [action.id]: '' });
+    }
+  };
+
+  const remove = async (action: CorrectiveAction) => {
+    if (!confirm('この是正処置を削除しますか？')) return;
+    await send(`/api/corrective-actions/${action.id}`, 'DELETE');
+  };
+
+  const fieldClass = "w-full px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-zinc-100">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">是正処置</h4>
+        <span className="text-xs text-zinc-400">未完了 {actions.filter(a => a.status !== 'verified').length} 件</span>
+      </div>
+
+      {actions.map(action => {
+        const overdue = action.status !== 'verified' && !!action.due_date && action.due_date < today;
+        const canResolve = action.status === 'open' && (action.assignee_id === userId || can('corrective-actions', 'update'));
+        const canVerify = action.status === 'resolved' && can('corrective-actions', 'approve');
+        return (
+          <div key={action.id} className="p-4 bg-zinc-50 rounded-2xl border border-zinc-100 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                {action.checklist_label && (
+                  <p className="text-xs text-zinc-500 mb-1">
+                    {!!action.critical && <span className="mr-2 px-1.5 py-0.5 rounded bg-red-50 text-red-600 text-[10px] font-bold">重要</span>}
+                    指摘: {action.checklist_label}
+                  </p>
+                )}
+                <p className="text-sm font-semibold">{action.description}</p>
+                <p className={cn("text-xs mt-1", overdue ? 'text-red-600 font-semibold' : 'text-zinc-400')}>
+                  担当: {action.assignee_name ?? '未割当'} • 期限: {action.due_date ?? '—'}{overdue && '（期限超過）'}
+                </p>
+              </div>
+              <span className={cn("px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider shrink-0", correctiveActionStatusStyles[action.status])}>
+                {CORRECTIVE_ACTION_STATUS_LABELS[action.status] ?? action.status}
+              </span>
+            </div>
+
+            {action.remediation_note && (
+              <p className="text-sm text-zinc-600"><span className="text-xs font-semibold text-zinc-400 mr-2">是正報告</span>{action.remediation_note}</p>
+            )}
+            {action.verified_at && (
+              <p className="text-xs text-zinc-500">
+                {action.status === 'verified' ? '検証済' : '差戻し'}: {action.verified_by_name ?? '—'} • {action.verified_at}
+                {action.verification_comment && `「${action.verification_comment}」`}
+              </p>
+            )}
+
+            {(canResolve || canVerify) && (
+              <div className="space-y-2">
+                <textarea
+                  value={notes[action.id] ?? ''}
+                  onChange={e => setNotes({ ...notes, [action.id]: e.target.value })}
+                  placeholder={canResolve ? '実施した是正内容' : '検証コメント（差戻し時は必須）'}
+                  className={cn(fieldClass, "min-h-[60px]")}
+                />
+                <div className="flex gap-2">
+                  {canResolve && <Button variant="secondary" className="text-xs" onClick={() => resolve(action)}>是正完了を報告</Button>}
+                  {canVerify && <Button variant="secondary" className="text-xs" onClick={() => verify(action, true)}>検証OK</Button>}
+                  {canVerify && <Button variant="danger" className="text-xs" onClick={() => verify(action, false)}>差戻し</Button>}
+                </div>
+              </div>
+            )}
+
+            <AttachmentGallery
+              resource="corrective-actions"
+              recordId={action.id}
+              canEdit={action.status !== 'verified' && can('corrective-actions', 'update')}
+              title="是正後の写真"
+            />
+
+            {can('corrective-actions', 'delete') && (
+              <button type="button" onClick={() => remove(action)} className="text-[10px] font-semibold text-red-500 hover:text-red-600">
+                是正処置を削除
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {actions.length === 0 && <p className="text-sm text-zinc-400">是正処置はありません</p>}
+
+      {can('corrective-actions', 'create') && (
+        <div className="p-4 bg-zinc-50 rounded-2xl border border-dashed border-zinc-200 space-y-3">
+          <select value={draft.checklist_item_id} onChange={e => setDraft({ ...draft, checklist_item_id: e.target.value })} className={fieldClass}>
+            <option value="">指摘項目: 全般</option>
+            {findings.map(item => <option key={item.id} value={item.id}>{item.critical ? '【重要】' : ''}{item.label}</option>)}
+          </select>
+          <input value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="是正内容（例: かぶり厚不足箇所のスペーサー追加）" className={fieldClass} />
+          <div className="grid grid-cols-2 gap-3">
+            <select value={draft.assignee_id} onChange={e => setDraft({ ...draft, assignee_id: e.target.value })} className={fieldClass}>
+              <option value="">担当者を選択</option>
+              {users.map(u => <option key={u.id} value={u.id}>{u.username}（{ROLE_LABELS[u.role] ?? u.role}）</option>)}
+            </select>
+            <input type="date" value={draft.due_date} onChange={e => setDraft({ ...draft, due_date: e.target.value })} className={fieldClass} />
+          </div>
+          <Button variant="secondary" className="text-xs" onClick={create}>
+            <Plus size={14} />
+            是正処置を追加
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const comparisonFieldLabels: Record<string, string> = {
+  client_name: '顧客名',
+  project_name: 'プロジェクト',
+  details: '備考・条件',
+  valid_until: '有効期限',
+  subtotal: '小計',
+  discount: '値引き',
+  tax_rate: '消費税率',
+  tax: '消費税',
+  amount: '合計金額',
+};
+
+const formatComparisonValue = (field: string, value: string | number | null) =>
+  value === null || value === '' ? '—' :
+  field === 'tax_rate' ? `${Math.round(Number(value) * 1000) / 10}%` :
+  typeof value === 'number' ? `¥${value.toLocaleString()}` : String(value);
+
+// Revision list of an estimate, creation of a new revision, and a diff between any two revisions
+function EstimateRevisions({ estimate, canRevise, onOpen }: { estimate: Estimate; canRevise: boolean; onOpen: (id: number) => void }) {
+  const revisions = estimate.revisions ?? [];
+  const latest = revisions[revisions.length - 1];
+  const [compareFrom, setCompareFrom] = useState(String(revisions[Math.max(revisions.length - 2, 0)]?.id ?? estimate.id));
+  const [compareTo, setCompareTo] = useState(String(latest?.id ?? estimate.id));
+  const [comparison, setComparison] = useState<EstimateComparison | null>(null);
+
+  const createRevision = async () => {
+    const res = await fetch(`/api/estimates/${estimate.id}/revisions`, { method: 'POST' });
+    if (res.ok) {
+      const { id } = await res.json();
+      onOpen(id);
+    } else {
+      const { error } = await res.json();
+      alert(`改訂版を作成できませんでした（${error}）`);
+    }
+  };
+
+  const compare = async () => {
+    const res = await fetch(`/api/estimates/${compareFrom}/compare/${compareTo}`);
+    if (res.ok) setComparison(await res.json());
+  };
+
+  const revisionOptions = revisions.map(r => ({ value: String(r.id), label: `第${r.revision}版（${ESTIMATE_STATUS_LABELS[r.status] ?? r.status}）` }));
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-zinc-100">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">改訂履歴 • {estimate.estimate_no}</h4>
+        {canRevise && latest?.id === estimate.id && estimate.status !== 'draft' && (
+          <Button variant="secondary" className="text-xs" onClick={createRevision}>
+            <Copy size={14} />
+            改訂版を作成
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {revisions.map(r => (
+          <button
+            key={r.id}
+            type="button"
+            onClick={() => r.id !== estimate.id && onOpen(r.id)}
+            className={cn(
+              "px-3 py-2 rounded-xl border text-left text-xs transition-colors",
+              r.id === estimate.id ? "border-zinc-900 bg-zinc-900 text-white" : "border-zinc-200 hover:bg-zinc-50"
+            )}
+          >
+            <p className="font-bold">第{r.revision}版</p>
+            <p className={r.id === estimate.id ? 'text-zinc-300' : 'text-zinc-400'}>¥{r.amount.toLocaleString()}</p>
+          </button>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+            <Select label="比較元" value={compareFrom} onChange={e => setCompareFrom(e.target.value)} options={revisionOptions} />
+            <Select label="比較先" value={compareTo} onChange={e => setCompareTo(e.target.value)} options={revisionOptions} />
+            <Button variant="secondary" onClick={compare}>
+              <GitCompare size={16} />
+              比較
+            </Button>
+          </div>
+
+          {comparison && (
+            <div className="p-4 bg-zinc-50 rounded-2xl border border-zinc-100 space-y-3 text-sm">
+              <p className="text-xs font-bold text-zinc-400">第{comparison.before.revision}版 → 第{comparison.after.revision}版</p>
+              {comparison.fields.length === 0 && comparison.items.length === 0 && <p className="text-zinc-400">差分はありません</p>}
+              {comparison.fields.map(f => (
+                <div key={f.field} className="grid grid-cols-3 gap-3">
+                  <span className="text-zinc-500">{comparisonFieldLabels[f.field] ?? f.field}</span>
+                  <span className="text-red-600 line-through whitespace-pre-wrap">{formatComparisonValue(f.field, f.before)}</span>
+                  <span className="text-emerald-700 font-semibold whitespace-pre-wrap">{formatComparisonValue(f.field, f.after)}</span>
+                </div>
+              ))}
+              {comparison.items.map((item, i) => {
+                const line = item.after ?? item.before!;
+                return (
+                  <div key={i} className="grid grid-cols-3 gap-3">
+                    <span className="text-zinc-500">
+                      {item.change === 'added' ? '追加' : item.change === 'removed' ? '削除' : '変更'}: {line.name}{line.spec ? ` ${line.spec}` : ''}
+                    </span>
+                    <span className="text-red-600 line-through">
+                      {item.before && `${item.before.quantity}${item.before.unit ?? ''} × ¥${item.before.unit_price.toLocaleString()}`}
+                    </span>
+                    <span className="text-emerald-700 font-semibold">
+                      {item.after && `${item.after.quantity}${item.after.unit ?? ''} × ¥${item.after.unit_price.toLocaleString()}`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChangePasswordForm({ onDone, onCancel, cancelLabel = 'キャンセル' }: { onDone: () => void; onCancel: () => void; cancelLabel?: string }) {
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    if (formData.get('new_password') !== formData.get('confirm_password')) {
+      setError('新しいパスワードが一致しません');
+      return;
+    }
+    const res = await fetch('/api/me/password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        current_password: formData.get('current_password'),
+        new_password: formData.get('new_password')
+      })
+    });
+    if (res.ok) {
+      onDone();
+    } else {
+      const { error, fields }: Partial<ValidationErrorBody> = await res.json();
+      setFieldErrors(fields ?? {});
+      setError(fields ? null : error ?? null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <FieldErrorsContext.Provider value={fieldErrors}>
+        <Input label="現在のパスワード" name="current_password" type="password" required />
+        <Input label="新しいパスワード" name="new_password" type="password" minLength={MIN_PASSWORD_LENGTH} placeholder={`${MIN_PASSWORD_LENGTH}文字以上`} required />
+        <Input label="新しいパスワード（確認）" name="confirm_password" type="password" minLength={MIN_PASSWORD_LENGTH} required />
+      </FieldErrorsContext.Provider>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end gap-3 pt-2">
+        <Button variant="secondary" onClick={onCancel}>{cancelLabel}</Button>
+        <Button type="submit">変更する</Button>
+      </div>
+    </form>
+  );
+}
+
+// Filter and sort options of the record lists; keys match the server's list query parameters
+const listOptions: Record<ListView, { statuses?: Record<string, string>; sorts: Record<string, string>; dateLabel: string }> = {
+  inspections: {
+    statuses: INSPECTION_STATUS_LABELS,
+    sorts: { created_at: '登録日', date: '点検日', project_name: 'プロジェクト', status: 'ステータス' },
+    dateLabel: '点検日',
+  },
+  'trip-reports': {
+    statuses: TRIP_REPORT_STATUS_LABELS,
+    sorts: { created_at: '登録日', date_start: '出発日', destination: '出張先', expenses: '経費' },
+    dateLabel: '出発日',
+  },
+  estimates: {
+    statuses: ESTIMATE_STATUS_LABELS,
+    sorts: { created_at: '作成日', amount: '金額', client_name: '顧客名', valid_until: '有効期限' },
+    dateLabel: '作成日',
+  },
+  minutes: {
+    sorts: { created_at: '登録日', date: '開催日', title: '件名' },
+    dateLabel: '開催日',
+  },
+};
+
+function ListToolbar({ view, filters, projects, canImport, onChange, onImported }: {
+  view: ListView;
+  filters: ListFilters;
+  projects: Project[];
+  canImport: boolean;
+  onChange: (filters: ListFilters) => void;
+  onImported: () => void;
+  key?: React.Key;
+}) {
+  const options = listOptions[view];
+  const [q, setQ] = useState(filters.q);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const set = (patch: Partial<ListFilters>) => onChange({ ...filters, ...patch });
+
+  // Keyword changes are applied once typing pauses
+  useEffect(() => {
+    if (q === filters.q) return;
+    const timer = setTimeout(() => set({ q }), 300);
+    return () => clearTimeout(timer);
+  }, [q]);
+
+  const fieldClass = "px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm focus:outline-none focus:border-zinc-900";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
+        <input value={q} onChange={e => setQ(e.target.value)} placeholder="キーワード" className={cn(fieldClass, "pl-9 w-56")} />
+      </div>
+      {options.statuses && (
+        <select value={filters.status} onChange={e => set({ status: e.target.value })} className={fieldClass}>
+          <option value="">すべてのステータス</option>
+          {Object.entries(options.statuses).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      )}
+      <select value={filters.project_id} onChange={e => set({ project_id: e.target.value })} className={cn(fieldClass, "max-w-48")}>
+        <option value="">すべてのプロジェクト</option>
+        {projects.map(p => <option key={p.id} value={p.id}>{p.code} {p.name}</option>)}
+      </select>
+      <div className="flex items-center gap-2 text-sm text-zinc-500">
+        {options.dateLabel}
+        <input type="date" value={filters.from} onChange={e => set({ from: e.target.value })} className={fieldClass} />
+        〜
+        <input type="date" value={filters.to} onChange={e => set({ to: e.target.value })} className={fieldClass} />
+      </div>
+      <label className="flex items-center gap-2 text-sm text-zinc-500">
+        <input type="checkbox" checked={filters.author === 'me'} onChange={e => set({ author: e.target.checked ? 'me' : '' })} />
+        自分の記録のみ
+      </label>
+      <div className="flex items-center gap-1 ml-auto">
+        <select value={filters.sort} onChange={e => set({ sort: e.target.value })} className={fieldClass}>
+          <option value="">並び順: 既定</option>
+          {Object.entries(options.sorts).map(([value, label]) => <option key={value} value={value}>並び順: {label}</option>)}
+        </select>
+        <Button variant="secondary" className="text-xs" onClick={() => set({ order: filters.order === 'asc' ? 'desc' : 'asc' })}>
+          {filters.order === 'asc' ? '昇順' : '降順'}
+        </Button>
+      </div>
+      {/* Downloads everything matching the current filters, not just the loaded page */}
+      <div className="flex items-center gap-1">
+        {(['csv', 'xlsx'] as const).map(format => (
+          <Button
+            key={format}
+            variant="secondary"
+            className="text-xs"
+            onClick={() => window.location.assign(`/api/${view}/export?${filterParams({ ...filters, q })}&format=${format}`)}
+          >
+            <FileDown size={14} />
+            {format === 'csv' ? 'CSV' : 'Excel'}
+          </Button>
+        ))}
+        {canImport && (
+          <Button variant="secondary" className="text-xs" onClick={() => setIsImportOpen(true)}>
+            <FileUp size={14} />
+            インポート
+          </Button>
+        )}
+      </div>
+      <AnimatePresence>
+        {isImportOpen && (
+          <ImportDialog
+            view={view}
+            onClose={() => setIsImportOpen(false)}
+            onImported={() => { setIsImportOpen(false); onImported(); }}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+interface ImportPreview {
+  headers: string[];
+  mapping: Record<string, string | null>;
+  fields: { field: string; label: string; required: boolean }[];
+  rows: { line: number; values: Record<string, string | number | null>; errors: { field: string | null; message: string }[] }[];
+  total: number;
+  invalid: number;
+}
+
+// Spreadsheets saved by Excel in Japan are often Shift_JIS rather than UTF-8
+const readCsvFile = async (file: File) => {
+  const bytes = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+};
+
+// Bulk CSV import: pick a file, adjust the column mapping, check the per-row errors, then import all rows at once
+function ImportDialog({ view, onClose, onImported }: { view: ListView; onClose: () => void; onImported: () => void }) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState('');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (text: string, nextMapping: Record<string, string | null>, commit: boolean) => {
+    setBusy(true);
+    try {
+      const params = new URLSearchParams({ mapping: JSON.stringify(nextMapping), ...(commit && { commit: '1' }) });
+      const res = await fetch(`/api/${view}/import?${params}`, { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: text });
+      const data = await res.json();
+      if (commit && res.ok) {
+        alert(`${data.imported}件を取り込みました`);
+        onImported();
+        return;
+      }
+      setError(data.error ?? '');
+      if (data.rows) {
+        setPreview(data);
+        setMapping(data.mapping);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await readCsvFile(file);
+    setCsv(text);
+    setPreview(null);
+    send(text, {}, false);
+  };
+
+  const changeMapping = (header: string, field: string) => {
+    const next = { ...mapping, [header]: field || null };
+    setMapping(next);
+    send(csv!, next, false);
+  };
+
+  const rows = (preview?.rows ?? []).filter(row => !errorsOnly || row.errors.length > 0);
+  const cellClass = "py-2 px-3 text-xs border-b border-zinc-100 align-top";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-zinc-900/40 backdrop-blur-sm" />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-5xl bg-white rounded-3xl shadow-2xl max-h-[90vh] overflow-y-auto p-8 space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold">{viewTitles[view]}のインポート</h3>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-100 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <input type="file" accept=".csv,text/csv" onChange={e => selectFile(e.target.files?.[0])} className="text-sm" />
+          <p className="text-xs text-zinc-400">1行目を見出し行とするCSV（UTF-8 / Shift_JIS）。エクスポートしたファイルはそのまま取り込めます。</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600 bg-red-50 rounded-xl px-4 py-3">{error}</p>}
+
+        {preview && (
+          <>
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">列の対応付け</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {preview.headers.map(header => (
+                  <label key={header} className="flex items-center gap-2 text-sm">
+                    <span className="w-28 truncate text-zinc-500" title={header}>{header}</span>
+                    <select value={mapping[header] ?? ''} onChange={e => changeMapping(header, e.target.value)} className="flex-1 min-w-0 px-2 py-1.5 bg-zinc-50 border border-zinc-200 rounded-lg text-sm">
+                      <option value="">（取り込まない）</option>
+                      {preview.fields.map(f => <option key={f.field} value={f.field}>{f.label}{f.required ? ' *' : ''}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <p className={cn("text-sm font-semibold", preview.invalid > 0 ? 'text-red-600' : 'text-emerald-600')}>
+                {preview.total}件中 {preview.invalid > 0 ? `${preview.invalid}件にエラーがあります` : 'すべて取り込めます'}
+              </p>
+              <label className="flex items-center gap-2 text-sm text-zinc-500">
+                <input type="checkbox" checked={errorsOnly} onChange={e => setErrorsOnly(e.target.checked)} />
+                エラーのある行のみ
+              </label>
+            </div>
+
+            <div className="overflow-x-auto max-h-96 border border-zinc-200 rounded-2xl">
+              <table className="w-full text-left border-collapse">
+                <thead className="bg-zinc-50 sticky top-0">
+                  <tr>
+                    <th className={cn(cellClass, "font-bold text-zinc-400")}>行</th>
+                    {preview.fields.map(f => <th key={f.field} className={cn(cellClass, "font-bold text-zinc-400 whitespace-nowrap")}>{f.label}</th>)}
+                    <th className={cn(cellClass, "font-bold text-zinc-400")}>エラー</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, 200).map(row => (
+                    <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                      <td className={cellClass}>{row.line}</td>
+                      {preview.fields.map(f => (
+                        <td key={f.field} className={cn(cellClass, "max-w-48 truncate", row.errors.some(e => e.field === f.field) && "text-red-600 font-semibold")}>
+                          {row.values[f.field] ?? ''}
+                        </td>
+                      ))}
+                      <td className={cn(cellClass, "text-red-600 min-w-48")}>{row.errors.map(e => e.message).join(' / ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > 200 && <p className="text-xs text-zinc-400 p-3">先頭200行を表示しています</p>}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>キャンセル</Button>
+          <Button disabled={!preview || preview.invalid > 0 || busy} onClick={() => send(csv!, mapping, true)}>
+            {preview ? `${preview.total}件を取り込む` : '取り込む'}
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+// Header search across every record type the user can read, grouped by type
+function GlobalSearch({ onSelect }: { onSelect: (type: ListView, id: number) => void }) {
+  const [q, setQ] = useState('');
+  const [results, setResults] = useState<Partial<Record<ListView, SearchResult[]>> | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!q.trim()) {
+      setResults(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetch(`/api/search?${new URLSearchParams({ q })}`)
+        .then(res => res.ok ? res.json() : null)
+        .then(setResults)
+        .catch(console.error);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [q]);
+
+  const groups = (Object.entries(results ?? {}) as [ListView, SearchResult[]][]).filter(([, items]) => items.length > 0);
+
+  return (
+    <div className="relative hidden md:block">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
+      <input 
+        type="text" 
+        placeholder="検索..." 
+        value={q}
+        onChange={e => { setQ(e.target.value); setOpen(true); }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={e => e.key === 'Escape' && setOpen(false)}
+        className="pl-10 pr-4 py-2 bg-zinc-100 border-transparent rounded-xl text-sm focus:bg-white focus:ring-2 focus:ring-zinc-900/5 transition-all w-64"
+      />
+      {open && results && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-[70vh] overflow-y-auto bg-white rounded-2xl border border-zinc-200 shadow-xl z-50 p-2">
+          {groups.map(([type, items]) => (
+            <div key={type} className="py-2">
+              <p className="px-3 pb-1 text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{viewTitles[type]}</p>
+              {items.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  // Keep focus in the input until the click lands
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => { setOpen(false); onSelect(type, item.id); }}
+                  className="block w-full text-left px-3 py-2 rounded-xl hover:bg-zinc-50"
+                >
+                  <p className="text-sm font-semibold truncate">{item.title || '—'}</p>
+                  <p className="text-xs text-zinc-400 truncate">{item.date ?? ''} {item.subtitle}</p>
+                </button>
+              ))}
+            </div>
+          ))}
+          {groups.length === 0 && <p className="px-3 py-6 text-sm text-center text-zinc-400">該当する記録はありません</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Header bell with the unread count. Polls while the app is open; the scheduler adds reminders every few minutes.
+function NotificationBell({ refreshKey, onOpen }: { refreshKey: number; onOpen: (notification: AppNotification) => void }) {
+  const [data, setData] = useState<{ items: AppNotification[]; unread_count: number } | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const load = () => {
+    fetch('/api/notifications?limit=20')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => result && setData(result))
+      .catch(console.error);
+  };
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, 60000);
+    return () => clearInterval(timer);
+  }, [refreshKey]);
+
+  const readAll = async () => {
+    await fetch('/api/notifications/read-all', { method: 'POST' });
+    load();
+  };
+
+  const unread = data?.unread_count ?? 0;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => { if (!open) load(); setOpen(!open); }}
+        className="relative p-2 hover:bg-zinc-100 rounded-xl transition-colors"
+        title="通知"
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-96 max-h-[70vh] overflow-y-auto bg-white rounded-2xl border border-zinc-200 shadow-xl z-50 p-2">
+            <div className="flex items-center justify-between px-3 py-2">
+              <p className="text-sm font-bold">通知</p>
+              {unread > 0 && (
+                <button type="button" onClick={readAll} className="text-xs font-medium text-zinc-400 hover:text-zinc-900">すべて既読にする</button>
+              )}
+            </div>
+            {data?.items.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => { setOpen(false); onOpen(notification); }}
+                className={cn("block w-full text-left px-3 py-2 rounded-xl hover:bg-zinc-50", !notification.read_at && "bg-amber-50/60")}
+              >
+                <p className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">
+                  {NOTIFICATION_KIND_LABELS[notification.kind] ?? notification.kind} • {formatTimestamp(notification.created_at)}
+                </p>
+                <p className={cn("text-sm", !notification.read_at ? 'font-semibold' : 'text-zinc-500')}>{notification.title}</p>
+                {notification.body && <p className="text-xs text-zinc-400 truncate">{notification.body}</p>}
+              </button>
+            ))}
+            {data?.items.length === 0 && <p className="px-3 py-8 text-center text-sm text-zinc-400">通知はありません</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function NavItem({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active?: boolean, onClick: () => void }) {
+  return (
+    <button 
+      onClick={onClick}
+      className={cn(
+        "w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-semibold transition-all group",
+        active 
+          ? "bg-zinc-900 text-white shadow-lg shadow-zinc-900/10" 
+          : "text-zinc-500 hover:bg-zinc-100 hover:text-zinc-900"
+      )}
+    >
+      <span className={cn("transition-colors", active ? "text-white" : "text-zinc-400 group-hover:text-zinc-900")}>
+        {icon}
+      </span>
+      {label}
+    </button>
+  );
+}
+
+// First day of the month `months - 1` months ago, so 1 means the current month
+const monthsAgo = (months: number) => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - months + 1);
+  return date.toLocaleDateString('sv-SE');
+};
+
+const dashboardRanges = [
+  { label: '今月', from: () => monthsAgo(1) },
+  { label: '3ヶ月', from: () => monthsAgo(3) },
+  { label: '12ヶ月', from: () => monthsAgo(12) },
+  { label: '全期間', from: () => '' },
+];
+
+const yen = (value: number) => `¥${Math.round(value).toLocaleString()}`;
+
+const estimateStatusBarColors: Record<EstimateStatus, string> = {
+  draft: 'bg-zinc-300',
+  submitted: 'bg-amber-400',
+  approved: 'bg-indigo-400',
+  sent: 'bg-blue-500',
+  accepted: 'bg-emerald-500',
+  rejected: 'bg-red-400',
+};
+
+function DashboardView({ onSelectInspection, onSelectMinute, onOpenNotification }: {
+  onSelectInspection: (id: number) => void;
+  onSelectMinute: (id: number) => void;
+  onOpenNotification: (notification: AppNotification) => void;
+}) {
+  const [from, setFrom] = useState(monthsAgo(12));
+  const [to, setTo] = useState('');
+  const [data, setData] = useState<DashboardData | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/dashboard?${new URLSearchParams({ from, to })}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setData)
+      .catch(console.error);
+  }, [from, to]);
+
+  if (!data) return <div className="py-20 text-center text-zinc-400">読み込み中...</div>;
+  const { inspections, estimates, trips, action_items: actionItems } = data;
 
-function DashboardView({ inspections }: { inspections: Inspection[] }) {
   const stats = [
-    { label: '進行中の点検', value: inspections.filter(i => i.status === 'pending').length, icon: <Clock className="text-amber-500" />, color: 'bg-amber-50' },
-    { label: '完了した点検', value: inspections.filter(i => i.status === 'completed').length, icon: <CheckCircle2 className="text-emerald-500" />, color: 'bg-emerald-50' },
-    { label: '至急対応', value: inspections.filter(i => i.status === 'urgent').length, icon: <AlertCircle className="text-red-500" />, color: 'bg-red-50' },
-  ];
+    inspections && {
+      label: '未完了の点検',
+      value: (inspections.pending + inspections.urgent).toLocaleString(),
+      note: `至急 ${inspections.urgent} 件`,
+      icon: <Clock className="text-amber-500" />,
+      color: 'bg-amber-50',
+    },
+    estimates && {
+      label: '見積パイプライン',
+      value: yen(estimates.open_value),
+      note: `受注額 ${yen(estimates.won_value)}`,
+      icon: <FileText className="text-blue-500" />,
+      color: 'bg-blue-50',
+    },
+    estimates && {
+      label: '受注率',
+      value: estimates.win_rate === null ? '—' : `${Math.round(estimates.win_rate * 1000) / 10}%`,
+      note: '受注 ÷（受注 + 失注）',
+      icon: <CheckCircle2 className="text-emerald-500" />,
+      color: 'bg-emerald-50',
+    },
+    (actionItems.corrective_open !== null || actionItems.tasks_open !== null) && {
+      label: '未解決アクション',
+      value: ((actionItems.corrective_open ?? 0) + (actionItems.tasks_open ?? 0)).toLocaleString(),
+      note: [
+        actionItems.corrective_open !== null && `是正処置 ${actionItems.corrective_open}`,
+        actionItems.tasks_open !== null && `議事録タスク ${actionItems.tasks_open}`,
+        `期限超過 ${(actionItems.corrective_overdue ?? 0) + (actionItems.tasks_overdue ?? 0)}`,
+      ].filter(Boolean).join(' • '),
+      icon: <AlertCircle className="text-red-500" />,
+      color: 'bg-red-50',
+    },
+  ].filter(Boolean) as { label: string; value: string; note: string; icon: React.ReactElement; color: string }[];
 
   return (
     <div className="space-y-8">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {stats.map((stat, i) => (
-          <Card key={i} className="p-6 flex items-center gap-5">
-            <div className={cn("w-14 h-14 rounded-2xl flex items-center justify-center", stat.color)}>
-              {React.cloneElement(stat.icon as React.ReactElement, { size: 28 })}
+      <div className="flex flex-wrap items-center gap-3">
+        {dashboardRanges.map(range => (
+          <Button
+            key={range.label}
+            variant={from === range.from() && to === '' ? 'primary' : 'secondary'}
+            className="text-xs"
+            onClick={() => { setFrom(range.from()); setTo(''); }}
+          >
+            {range.label}
+          </Button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-sm text-zinc-500">
+          <Calendar size={16} />
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="px-3 py-1.5 bg-white border border-zinc-200 rounded-xl text-sm" />
+          〜
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className="px-3 py-1.5 bg-white border border-zinc-200 rounded-xl text-sm" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+        {stats.map(stat => (
+          <Card key={stat.label} className="p-6 flex items-center gap-5">
+            <div className={cn("w-14 h-14 rounded-2xl flex items-center justify-center shrink-0", stat.color)}>
+              {React.cloneElement(stat.icon, { size: 28 })}
             </div>
-            <div>
+            <div className="min-w-0">
               <p className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">{stat.label}</p>
-              <p className="text-3xl font-bold mt-1">{stat.value}</p>
+              <p className="text-3xl font-bold mt-1 truncate">{stat.value}</p>
+              <p className="text-xs text-zinc-400 mt-1">{stat.note}</p>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+        {inspections && (
+          <Card className="p-8">
+            <h3 className="text-xl font-bold mb-6">点検ステータス</h3>
+            <StackedBar segments={[
+              { label: INSPECTION_STATUS_LABELS.urgent, value: inspections.urgent, color: 'bg-red-500' },
+              { label: INSPECTION_STATUS_LABELS.pending, value: inspections.pending, color: 'bg-amber-500' },
+              { label: INSPECTION_STATUS_LABELS.completed, value: inspections.completed, color: 'bg-emerald-500' },
+            ]} />
+            <p className="text-xs text-zinc-400 mt-4">期間内の点検 {inspections.total} 件</p>
+          </Card>
+        )}
+        {estimates && (
+          <Card className="p-8">
+            <h3 className="text-xl font-bold mb-6">見積ステータス別金額</h3>
+            <HorizontalBars rows={(Object.keys(ESTIMATE_STATUS_LABELS) as EstimateStatus[]).map(status => {
+              const row = estimates.pipeline.find(p => p.status === status);
+              return { label: `${ESTIMATE_STATUS_LABELS[status]}（${row?.count ?? 0}）`, value: row?.amount ?? 0, color: estimateStatusBarColors[status] };
+            })} format={yen} />
+          </Card>
+        )}
+        {trips && (
+          <Card className="p-8">
+            <h3 className="text-xl font-bold mb-1">月別出張経費</h3>
+            <p className="text-xs text-zinc-400 mb-6">合計 {yen(trips.total)}</p>
+            <MonthlyBars rows={trips.monthly.map(m => ({ label: m.month, value: m.expenses }))} format={yen} />
+          </Card>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {inspections && (
+          <Card className="p-8">
+            <h3 className="text-xl font-bold mb-8">最近の点検記録</h3>
+            <div className="space-y-6">
+              {inspections.recent.map((item) => (
+                <div key={item.id} onClick={() => onSelectInspection(item.id)} className="flex items-center justify-between group cursor-pointer">
+                  <div className="flex items-center gap-4">
+                    <div className={cn(
+                      "w-2 h-2 rounded-full",
+                      item.status === 'urgent' ? 'bg-red-500' :
+                      item.status === 'completed' ? 'bg-emerald-500' : 'bg-amber-500'
+                    )} />
+                    <div>
+                      <p className="font-bold group-hover:text-zinc-600 transition-colors">{item.project_name}</p>
+                      <p className="text-xs text-zinc-400 font-medium">{item.date} • {item.location}</p>
+                    </div>
+                  </div>
+                  <ChevronRight size={18} className="text-zinc-300 group-hover:text-zinc-900 transition-colors" />
+                </div>
+              ))}
+              {inspections.recent.length === 0 && <p className="text-zinc-400 text-center py-10">データがありません</p>}
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-8 bg-zinc-900 text-white border-none">
+          <h3 className="text-xl font-bold mb-2">システム通知</h3>
+          <p className="text-zinc-400 text-sm mb-8">あなた宛ての未読の通知と、期限を過ぎた是正処置・アクションアイテム</p>
+          <div className="space-y-6">
+            {data.notifications.map(notification => (
+              <button
+                key={`notification-${notification.id}`}
+                type="button"
+                onClick={() => onOpenNotification(notification)}
+                className="block w-full text-left p-4 bg-white/5 rounded-2xl border border-white/10 hover:bg-white/10 transition-colors"
+              >
+                <p className="text-xs font-bold text-sky-300 uppercase tracking-widest mb-1">
+                  {NOTIFICATION_KIND_LABELS[notification.kind] ?? notification.kind} • {formatTimestamp(notification.created_at)}
+                </p>
+                <p className="text-sm font-medium">{notification.title}</p>
+              </button>
+            ))}
+            {data.overdue_actions.map(action => (
+              <button
+                key={action.id}
+                type="button"
+                onClick={() => onSelectInspection(action.inspection_id)}
+                className="block w-full text-left p-4 bg-white/5 rounded-2xl border border-red-400/30 hover:bg-white/10 transition-colors"
+              >
+                <p className="text-xs font-bold text-red-400 uppercase tracking-widest mb-1">是正期限超過 • {action.due_date}</p>
+                <p className="text-sm font-medium">
+                  「{action.project_name || '—'}」{action.location}: {action.description}（担当: {action.assignee_name ?? '未割当'}）
+                </p>
+              </button>
+            ))}
+            {data.overdue_tasks.map(task => (
+              <button
+                key={`task-${task.id}`}
+                type="button"
+                onClick={() => onSelectMinute(task.minute_id!)}
+                className="block w-full text-left p-4 bg-white/5 rounded-2xl border border-amber-400/30 hover:bg-white/10 transition-colors"
+              >
+                <p className="text-xs font-bold text-amber-400 uppercase tracking-widest mb-1">タスク期限超過 • {task.due_date}</p>
+                <p className="text-sm font-medium">
+                  {task.description}（{task.minute_title} / 担当: {task.owner_name ?? '未割当'}）
+                </p>
+              </button>
+            ))}
+            {data.notifications.length === 0 && data.overdue_actions.length === 0 && data.overdue_tasks.length === 0 && (
+              <p className="text-sm text-zinc-500">対応が必要な通知はありません</p>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// Single bar split into proportional segments, with a legend
+function StackedBar({ segments }: { segments: { label: string; value: number; color: string }[] }) {
+  const total = segments.reduce((sum, s) => sum + s.value, 0);
+  return (
+    <div className="space-y-4">
+      <div className="flex h-4 rounded-full overflow-hidden bg-zinc-100">
+        {total > 0 && segments.map(s => (
+          <div key={s.label} className={s.color} style={{ width: `${(s.value / total) * 100}%` }} title={`${s.label}: ${s.value}`} />
+        ))}
+      </div>
+      <div className="space-y-2">
+        {segments.map(s => (
+          <div key={s.label} className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2"><span className={cn("w-2.5 h-2.5 rounded-full", s.color)} />{s.label}</span>
+            <span className="font-semibold">{s.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function HorizontalBars({ rows, format }: { rows: { label: string; value: number; color: string }[]; format: (value: number) => string }) {
+  const max = Math.max(...rows.map(r => r.value), 1);
+  return (
+    <div className="space-y-3">
+      {rows.map(row => (
+        <div key={row.label} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-zinc-500">{row.label}</span>
+            <span className="font-semibold">{format(row.value)}</span>
+          </div>
+          <div className="h-2.5 rounded-full bg-zinc-100 overflow-hidden">
+            <div className={cn("h-full rounded-full", row.color)} style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MonthlyBars({ rows, format }: { rows: { label: string; value: number }[]; format: (value: number) => string }) {
+  const max = Math.max(...rows.map(r => r.value), 1);
+  if (rows.length === 0) return <p className="text-zinc-400 text-center py-10">データがありません</p>;
+  return (
+    <div className="flex items-end gap-1.5 h-48">
+      {rows.map(row => (
+        <div key={row.label} className="flex-1 min-w-0 h-full flex flex-col justify-end items-center gap-1 group" title={`${row.label}: ${format(row.value)}`}>
+          <div className="w-full bg-zinc-900 group-hover:bg-zinc-600 rounded-t-md transition-colors" style={{ height: `${(row.value / max) * 100}%` }} />
+          <span className="text-[10px] text-zinc-400 truncate">{row.label.slice(5)}月</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ProjectsList({ data, onSelect }: { data: Project[]; onSelect: (item: Project) => void }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {data.map((item) => (
+        <Card key={item.id} className="p-6 hover:shadow-md transition-shadow">
+          <div className="flex justify-between items-start mb-4">
+            <span className={cn(
+              "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+              item.status === 'active' ? 'bg-blue-50 text-blue-600' :
+              item.status === 'completed' ? 'bg-emerald-50 text-emerald-600' :
+              item.status === 'on_hold' ? 'bg-amber-50 text-amber-600' : 'bg-zinc-100 text-zinc-500'
+            )}>
+              {PROJECT_STATUS_LABELS[item.status] ?? item.status}
+            </span>
+            <p className="text-xs text-zinc-400 font-medium">{item.code}</p>
+          </div>
+          <h4 className="text-lg font-bold mb-1">{item.name}</h4>
+          <p className="text-sm text-zinc-500 mb-2">{item.client}</p>
+          <div className="flex items-center gap-2 text-zinc-500 text-xs mb-6">
+            <MapPin size={14} />
+            {item.site_address || '—'}
+          </div>
+          <Button variant="secondary" className="w-full text-xs" onClick={() => onSelect(item)}>タイムラインを見る</Button>
+        </Card>
+      ))}
+      {data.length === 0 && <div className="col-span-full py-20 text-center text-zinc-400">データがありません</div>}
+    </div>
+  );
+}
+
+const timelineIcons: Record<TimelineItem['type'], React.ReactNode> = {
+  inspections: <ClipboardCheck size={12} />,
+  'trip-reports': <Plane size={12} />,
+  estimates: <FileText size={12} />,
+  minutes: <Users size={12} />,
+};
+
+function ProjectTimeline({ projectId, onBack, onEdit, onSelectItem }: {
+  projectId: number;
+  onBack: () => void;
+  onEdit?: (project: Project) => void;
+  onSelectItem: (item: TimelineItem) => void;
+}) {
+  const [data, setData] = useState<{ project: Project; items: TimelineItem[] } | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/projects/${projectId}/timeline`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setData)
+      .catch(console.error);
+  }, [projectId]);
+
+  if (!data) return <div className="py-20 text-center text-zinc-400">読み込み中...</div>;
+  const { project, items } = data;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft size={18} />
+          一覧に戻る
+        </Button>
+        {onEdit && (
+          <Button variant="secondary" onClick={() => onEdit(project)}>
+            <Pencil size={16} />
+            編集
+          </Button>
+        )}
+      </div>
+
+      <Card className="p-8">
+        <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest mb-1">{project.code}</p>
+        <h3 className="text-2xl font-bold mb-4">{project.name}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+          <div>
+            <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest">発注者</p>
+            <p className="font-semibold">{project.client || '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest">現場住所</p>
+            <p className="font-semibold">{project.site_address || '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest">工期</p>
+            <p className="font-semibold">{project.start_date || '—'} 〜 {project.end_date || '—'}</p>
+          </div>
+        </div>
+      </Card>
+
+      <div className="relative pl-8 space-y-6 before:absolute before:left-3 before:top-2 before:bottom-2 before:w-px before:bg-zinc-200">
+        {items.map((item) => (
+          <div key={`${item.type}-${item.id}`} className="relative">
+            <div className="absolute -left-8 top-4 w-6 h-6 rounded-full bg-white border border-zinc-200 flex items-center justify-center text-zinc-500">
+              {timelineIcons[item.type]}
+            </div>
+            <Card className="p-5 cursor-pointer hover:shadow-md transition-shadow">
+              <div onClick={() => onSelectItem(item)} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs text-zinc-400 font-semibold">{item.date} • {viewTitles[item.type]}</p>
+                  <p className="font-bold truncate">{item.title}</p>
+                  <p className="text-sm text-zinc-500 line-clamp-1">{item.summary}</p>
+                </div>
+                <ChevronRight size={18} className="text-zinc-300 shrink-0" />
+              </div>
+            </Card>
+          </div>
+        ))}
+        {items.length === 0 && <p className="text-zinc-400 text-center py-10">このプロジェクトの記録はまだありません</p>}
+      </div>
+    </div>
+  );
+}
+
+function ClientsList({ data, onSelect }: { data: Client[]; onSelect: (item: Client) => void }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {data.map((item) => (
+        <Card key={item.id} className="p-6 hover:shadow-md transition-shadow">
+          <div className="flex justify-between items-start mb-4">
+            <span className="px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-zinc-100 text-zinc-500">
+              見積 {item.estimate_count ?? 0}件
+            </span>
+            <p className="text-xs text-zinc-400 font-medium">{item.phone}</p>
+          </div>
+          <p className="text-xs text-zinc-400">{item.name_kana}</p>
+          <h4 className="text-lg font-bold mb-1">{item.name}</h4>
+          <p className="text-sm text-zinc-500 mb-2">{item.primary_contact ? `担当：${item.primary_contact}` : '担当者未登録'}</p>
+          <div className="flex items-center gap-2 text-zinc-500 text-xs mb-6">
+            <MapPin size={14} />
+            {item.address || '—'}
+          </div>
+          <Button variant="secondary" className="w-full text-xs" onClick={() => onSelect(item)}>取引履歴を見る</Button>
+        </Card>
+      ))}
+      {data.length === 0 && <div className="col-span-full py-20 text-center text-zinc-400">データがありません</div>}
+    </div>
+  );
+}
+
+function ClientDetail({ clientId, onBack, onEdit, onSelectEstimate, onSelectMinute }: {
+  clientId: number;
+  onBack: () => void;
+  onEdit?: (client: Client) => void;
+  onSelectEstimate: (id: number) => void;
+  onSelectMinute: (id: number) => void;
+}) {
+  const [data, setData] = useState<ClientSummary | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/clients/${clientId}/summary`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setData)
+      .catch(console.error);
+  }, [clientId]);
+
+  if (!data) return <div className="py-20 text-center text-zinc-400">読み込み中...</div>;
+  const { client, estimates, stats, minutes } = data;
+  const info = [
+    { label: '住所', value: [client.postal_code && `〒${client.postal_code}`, client.address].filter(Boolean).join(' ') },
+    { label: '電話番号', value: client.phone },
+    { label: '請求先', value: [client.billing_name, client.billing_address].filter(Boolean).join(' ') },
+    { label: 'インボイス登録番号', value: client.invoice_number },
+    { label: '支払条件', value: client.payment_terms },
+  ];
+  const kpis = [
+    { label: '見積件数', value: `${stats.estimate_count}件` },
+    { label: '見積総額', value: yen(stats.total_amount) },
+    { label: '受注額', value: yen(stats.won_amount) },
+    { label: '受注率', value: stats.win_rate === null ? '—' : `${Math.round(stats.win_rate * 100)}%`, note: `受注 ${stats.won_count} / 失注 ${stats.lost_count}` },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft size={18} />
+          一覧に戻る
+        </Button>
+        {onEdit && (
+          <Button variant="secondary" onClick={() => onEdit(client)}>
+            <Pencil size={16} />
+            編集
+          </Button>
+        )}
+      </div>
+
+      <Card className="p-8">
+        <p className="text-xs text-zinc-400 font-bold tracking-widest mb-1">{client.name_kana}</p>
+        <h3 className="text-2xl font-bold mb-4">{client.name}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+          {info.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest">{label}</p>
+              <p className="font-semibold">{value || '—'}</p>
             </div>
+          ))}
+        </div>
+        {(client.contacts ?? []).length > 0 && (
+          <div className="mt-6 pt-6 border-t border-zinc-100 grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+            {client.contacts!.map(contact => (
+              <div key={contact.id} className="p-3 bg-zinc-50 rounded-xl">
+                <p className="font-semibold">{contact.name}<span className="ml-2 text-xs font-normal text-zinc-400">{[contact.department, contact.title].filter(Boolean).join(' ')}</span></p>
+                <p className="text-xs text-zinc-500">{[contact.phone, contact.email].filter(Boolean).join(' • ') || '—'}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {client.notes && <p className="mt-6 text-sm text-zinc-500 whitespace-pre-wrap">{client.notes}</p>}
+      </Card>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+        {kpis.map(kpi => (
+          <Card key={kpi.label} className="p-6">
+            <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest mb-2">{kpi.label}</p>
+            <p className="text-2xl font-bold">{kpi.value}</p>
+            {kpi.note && <p className="text-xs text-zinc-400 mt-1">{kpi.note}</p>}
           </Card>
         ))}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <Card className="p-8">
-          <div className="flex items-center justify-between mb-8">
-            <h3 className="text-xl font-bold">最近の点検記録</h3>
-            <Button variant="ghost" className="text-zinc-400">すべて見る</Button>
-          </div>
-          <div className="space-y-6">
-            {inspections.slice(0, 5).map((item) => (
-              <div key={item.id} className="flex items-center justify-between group cursor-pointer">
-                <div className="flex items-center gap-4">
-                  <div className={cn(
-                    "w-2 h-2 rounded-full",
-                    item.status === 'urgent' ? 'bg-red-500' : 
-                    item.status === 'completed' ? 'bg-emerald-500' : 'bg-amber-500'
-                  )} />
-                  <div>
-                    <p className="font-bold group-hover:text-zinc-600 transition-colors">{item.project_name}</p>
-                    <p className="text-xs text-zinc-400 font-medium">{item.date} • {item.location}</p>
-                  </div>
-                </div>
-                <ChevronRight size={18} className="text-zinc-300 group-hover:text-zinc-900 transition-colors" />
+      <Card className="p-6">
+        <h4 className="font-bold mb-4">見積もり</h4>
+        <div className="divide-y divide-zinc-100">
+          {estimates.map(estimate => (
+            <div key={estimate.id} onClick={() => onSelectEstimate(estimate.id)} className="flex items-center justify-between gap-4 py-3 cursor-pointer hover:bg-zinc-50/50">
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{estimate.project_name || '—'}</p>
+                <p className="text-xs text-zinc-400">{estimate.estimate_no}{estimate.revision > 1 && ` 第${estimate.revision}版`}</p>
+              </div>
+              <div className="flex items-center gap-4 shrink-0">
+                <span className={cn(
+                  "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider",
+                  estimateStatusStyles[estimate.status] ?? 'bg-zinc-100 text-zinc-500'
+                )}>
+                  {ESTIMATE_STATUS_LABELS[estimate.status] ?? estimate.status}
+                </span>
+                <p className="font-bold w-32 text-right">{yen(estimate.amount ?? 0)}</p>
               </div>
-            ))}
-            {inspections.length === 0 && <p className="text-zinc-400 text-center py-10">データがありません</p>}
-          </div>
-        </Card>
-
-        <Card className="p-8 bg-zinc-900 text-white border-none">
-          <h3 className="text-xl font-bold mb-2">システム通知</h3>
-          <p className="text-zinc-400 text-sm mb-8">最新のアップデートと重要なお知らせ</p>
-          <div className="space-y-6">
-            <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
-              <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Update • 2時間前</p>
-              <p className="text-sm font-medium">新しい見積もりテンプレートが追加されました。設定よりご確認ください。</p>
             </div>
-            <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
-              <p className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Alert • 5時間前</p>
-              <p className="text-sm font-medium">「渋谷再開発プロジェクト」の点検期限が明日までです。</p>
+          ))}
+          {estimates.length === 0 && <p className="text-zinc-400 text-center py-6">この顧客の見積もりはまだありません</p>}
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <h4 className="font-bold mb-4">関連する打ち合わせ</h4>
+        <div className="divide-y divide-zinc-100">
+          {minutes.map(minute => (
+            <div key={minute.id} onClick={() => onSelectMinute(minute.id)} className="flex items-center justify-between gap-4 py-3 cursor-pointer hover:bg-zinc-50/50">
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{minute.title}</p>
+                <p className="text-xs text-zinc-400">{minute.date}{minute.project_name && ` • ${minute.project_name}`}</p>
+              </div>
+              <ChevronRight size={18} className="text-zinc-300 shrink-0" />
             </div>
-          </div>
-        </Card>
-      </div>
+          ))}
+          {minutes.length === 0 && <p className="text-zinc-400 text-center py-6">関連する議事録はありません</p>}
+        </div>
+      </Card>
     </div>
   );
 }
 
-function InspectionsList({ data }: { data: Inspection[] }) {
+const queuedStatusBadges: Record<PendingChange['status'], { label: string; className: string }> = {
+  pending: { label: '未同期', className: 'bg-zinc-900 text-white' },
+  conflict: { label: '競合', className: 'bg-red-600 text-white' },
+  error: { label: '要修正', className: 'bg-red-600 text-white' },
+};
+
+// Card contents of a queued inspection: the form fields over the server copy, if there is one
+const queuedInspection = (change: PendingChange, projects: Project[], base?: Inspection): Inspection => {
+  const body = change.body as Record<string, any>;
+  return {
+    ...base,
+    ...body,
+    id: base?.id ?? -change.id,
+    project_name: projects.find(p => String(p.id) === String(body.project_id))?.name ?? base?.project_name ?? null,
+    status: base?.status ?? deriveInspectionStatus(body.checklist ?? []) ?? 'pending',
+  } as Inspection;
+};
+
+function InspectionsList({ data, pending, projects, onSelect, onSelectQueued }: {
+  data: Inspection[];
+  pending: PendingChange[];
+  projects: Project[];
+  onSelect: (item: Inspection) => void;
+  onSelectQueued: (change: PendingChange) => void;
+}) {
+  const queuedEdits = new Map(pending.filter(c => c.record_id !== null).map(c => [c.record_id, c]));
+  // Records created offline come first, like the newest records
+  const cards = [
+    ...pending.filter(c => c.record_id === null).map(change => ({ item: queuedInspection(change, projects), change })),
+    ...data.map(item => {
+      const change = queuedEdits.get(item.id);
+      return { item: change ? queuedInspection(change, projects, item) : item, change };
+    }),
+  ];
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-      {data.map((item) => (
-        <Card key={item.id} className="p-6 hover:shadow-md transition-shadow">
+      {cards.map(({ item, change }) => (
+        <Card key={item.id} className={cn("p-6 hover:shadow-md transition-shadow", change && "border-dashed border-zinc-400")}>
           <div className="flex justify-between items-start mb-4">
-            <span className={cn(
-              "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider",
-              item.status === 'urgent' ? 'bg-red-50 text-red-600' : 
-              item.status === 'completed' ? 'bg-emerald-50 text-emerald-600' : 'bg-amber-50 text-amber-600'
-            )}>
-              {item.status === 'urgent' ? '至急' : item.status === 'completed' ? '完了' : '対応中'}
-            </span>
+            <div className="flex items-center gap-2">
+              <span className={cn(
+                "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+                item.status === 'urgent' ? 'bg-red-50 text-red-600' : 
+                item.status === 'completed' ? 'bg-emerald-50 text-emerald-600' : 'bg-amber-50 text-amber-600'
+              )}>
+                {item.status === 'urgent' ? '至急' : item.status === 'completed' ? '完了' : '対応中'}
+              </span>
+              {change && (
+                <span className={cn("flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-bold", queuedStatusBadges[change.status].className)}>
+                  <CloudOff size={12} />
+                  {queuedStatusBadges[change.status].label}
+                </span>
+              )}
+            </div>
             <p className="text-xs text-zinc-400 font-medium">{item.date}</p>
           </div>
           <h4 className="text-lg font-bold mb-2">{item.project_name}</h4>
@@ -628,15 +3537,130 @@ function InspectionsList({ data }: { data: Inspection[] }) {
             {item.location}
           </div>
           <p className="text-sm text-zinc-600 line-clamp-3 mb-6">{item.findings}</p>
-          <Button variant="secondary" className="w-full text-xs">詳細を確認</Button>
+          <Button variant="secondary" className="w-full text-xs" onClick={() => change && change.record_id === null ? onSelectQueued(change) : onSelect(item)}>
+            {change?.status === 'conflict' ? '競合を解決' : '詳細を確認'}
+          </Button>
         </Card>
       ))}
-      {data.length === 0 && <div className="col-span-full py-20 text-center text-zinc-400">データがありません</div>}
+      {cards.length === 0 && <div className="col-span-full py-20 text-center text-zinc-400">データがありません</div>}
+    </div>
+  );
+}
+
+// Offline state and queued changes in the header; the count doubles as a button to upload now
+function SyncStatus({ online, pending, onSync }: { online: boolean; pending: PendingChange[]; onSync: () => void }) {
+  if (online && pending.length === 0) return null;
+  const unresolved = pending.filter(c => c.status !== 'pending').length;
+  return (
+    <div className="flex items-center gap-2">
+      {!online && (
+        <span className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-zinc-100 text-xs font-bold text-zinc-600">
+          <CloudOff size={14} />
+          オフライン
+        </span>
+      )}
+      {pending.length > 0 && (
+        <button
+          onClick={onSync}
+          disabled={!online}
+          title={online ? '今すぐ同期' : '接続が戻ると自動で同期します'}
+          className={cn(
+            "flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-colors disabled:cursor-default",
+            unresolved ? 'bg-red-50 text-red-600 hover:bg-red-100' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+          )}
+        >
+          <RefreshCw size={14} />
+          未同期 {pending.length}件{unresolved > 0 && `（要対応 ${unresolved}件）`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+const conflictFields: [string, string][] = [
+  ['project_id', 'プロジェクト'],
+  ['date', '点検日'],
+  ['location', '場所'],
+  ['findings', '点検内容・所見'],
+];
+
+// Queued edit of an inspection someone else changed (or deleted) on the server before it was uploaded
+function ConflictDialog({ change, projects, onClose, onSync }: {
+  change: PendingChange;
+  projects: Project[];
+  onClose: () => void;
+  onSync: () => void;
+}) {
+  const server = change.server;
+  const mine = change.body;
+  const show = (key: string, value: unknown) => key === 'project_id'
+    ? projects.find(p => String(p.id) === String(value ?? ''))?.name ?? '（未設定）'
+    : String(value ?? '') || '—';
+  // Only what the checklist says, not the ids and order of its rows
+  const checklist = (rows: unknown) => JSON.stringify(((rows ?? []) as ChecklistItemInput[]).map(row => [row.label, row.result ?? null, row.comment || null]));
+  const differences = server ? [
+    ...conflictFields.filter(([key]) => String(server[key] ?? '') !== String(mine[key] ?? '')).map(([key, label]) => ({ label, server: show(key, server[key]), mine: show(key, mine[key]) })),
+    ...('checklist' in mine && checklist(server.checklist) !== checklist(mine.checklist) ? [{ label: 'チェックリスト', server: '（サーバーの内容）', mine: '（自分の変更）' }] : []),
+  ] : [];
+
+  const resolve = async (next: PendingChange | null) => {
+    if (next) {
+      await saveChange(next);
+      onSync();
+    } else {
+      await removeChange(change.id);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div onClick={onClose} className="absolute inset-0 bg-zinc-900/40 backdrop-blur-sm" />
+      <div className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl p-8 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold mb-2">未同期の変更が競合しています</h3>
+        <p className="text-sm text-zinc-500 mb-6">
+          {server
+            ? 'オフラインで編集している間に、ほかのユーザーがこの点検記録を更新しました。どちらの内容を残すか選んでください。'
+            : 'オフラインで編集している間に、この点検記録はサーバーから削除されました。'}
+        </p>
+        {differences.length > 0 && (
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-xs text-zinc-400">
+                <th className="py-2 pr-4 font-medium">項目</th>
+                <th className="py-2 pr-4 font-medium">サーバーの内容</th>
+                <th className="py-2 font-medium">自分の変更</th>
+              </tr>
+            </thead>
+            <tbody>
+              {differences.map(difference => (
+                <tr key={difference.label} className="border-t border-zinc-100 align-top">
+                  <td className="py-2 pr-4 font-medium whitespace-nowrap">{difference.label}</td>
+                  <td className="py-2 pr-4 text-zinc-500 whitespace-pre-wrap">{difference.server}</td>
+                  <td className="py-2 whitespace-pre-wrap">{difference.mine}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <Button variant="danger" onClick={() => confirm('自分の変更を破棄しますか？') && resolve(null)}>
+            {server ? 'サーバーの内容を残す' : '変更を破棄'}
+          </Button>
+          <div className="flex-1" />
+          <Button variant="secondary" onClick={onClose}>閉じる</Button>
+          {server ? (
+            <Button onClick={() => resolve({ ...change, version: Number(server.version) || null, status: 'pending', server: undefined })}>自分の変更で上書き</Button>
+          ) : (
+            <Button onClick={() => resolve({ ...change, record_id: null, version: null, status: 'pending', server: undefined })}>新しい記録として登録</Button>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
 
-function TripReportsList({ data }: { data: TripReport[] }) {
+function TripReportsList({ data, onSelect }: { data: TripReport[]; onSelect: (item: TripReport) => void }) {
   return (
     <div className="space-y-4">
       {data.map((item) => (
@@ -646,7 +3670,12 @@ function TripReportsList({ data }: { data: TripReport[] }) {
               <Plane size={24} />
             </div>
             <div>
-              <h4 className="font-bold text-lg">{item.destination}</h4>
+              <div className="flex items-center gap-3">
+                <h4 className="font-bold text-lg">{item.destination}</h4>
+                <span className={cn("px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider", tripReportStatusStyles[item.status] ?? 'bg-zinc-100 text-zinc-500')}>
+                  {TRIP_REPORT_STATUS_LABELS[item.status] ?? item.status}
+                </span>
+              </div>
               <p className="text-sm text-zinc-500">{item.purpose}</p>
             </div>
           </div>
@@ -659,7 +3688,7 @@ function TripReportsList({ data }: { data: TripReport[] }) {
               <p className="text-xs text-zinc-400 font-bold uppercase tracking-widest">経費</p>
               <p className="text-lg font-bold">¥{item.expenses.toLocaleString()}</p>
             </div>
-            <Button variant="ghost" className="p-2">
+            <Button variant="ghost" className="p-2" onClick={() => onSelect(item)}>
               <ChevronRight size={20} />
             </Button>
           </div>
@@ -670,7 +3699,7 @@ function TripReportsList({ data }: { data: TripReport[] }) {
   );
 }
 
-function EstimatesList({ data }: { data: Estimate[] }) {
+function EstimatesList({ data, onSelect }: { data: Estimate[]; onSelect: (item: Estimate) => void }) {
   return (
     <div className="overflow-x-auto">
       <table className="w-full text-left border-collapse">
@@ -687,7 +3716,9 @@ function EstimatesList({ data }: { data: Estimate[] }) {
             <tr key={item.id} className="group hover:bg-zinc-50/50 transition-colors">
               <td className="py-5 px-4">
                 <p className="font-bold">{item.client_name}</p>
-                <p className="text-xs text-zinc-400">{item.project_name}</p>
+                <p className="text-xs text-zinc-400">
+                  {item.estimate_no}{item.revision > 1 && ` 第${item.revision}版`} • {item.project_name}
+                </p>
               </td>
               <td className="py-5 px-4 font-bold text-lg">
                 ¥{item.amount.toLocaleString()}
@@ -695,15 +3726,13 @@ function EstimatesList({ data }: { data: Estimate[] }) {
               <td className="py-5 px-4">
                 <span className={cn(
                   "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider",
-                  item.status === 'approved' ? 'bg-emerald-50 text-emerald-600' : 
-                  item.status === 'rejected' ? 'bg-red-50 text-red-600' : 
-                  item.status === 'sent' ? 'bg-blue-50 text-blue-600' : 'bg-zinc-100 text-zinc-500'
+                  estimateStatusStyles[item.status] ?? 'bg-zinc-100 text-zinc-500'
                 )}>
-                  {item.status === 'approved' ? '承認' : item.status === 'rejected' ? '却下' : item.status === 'sent' ? '送付済' : '下書き'}
+                  {ESTIMATE_STATUS_LABELS[item.status] ?? item.status}
                 </span>
               </td>
               <td className="py-5 px-4 text-right">
-                <Button variant="ghost" className="ml-auto">詳細</Button>
+                <Button variant="ghost" className="ml-auto" onClick={() => onSelect(item)}>詳細</Button>
               </td>
             </tr>
           ))}
@@ -714,7 +3743,485 @@ function EstimatesList({ data }: { data: Estimate[] }) {
   );
 }
 
-function MinutesList({ data }: { data: Minute[] }) {
+// The signed-in user's action items across all meetings
+function MyTasksView({ onOpenMinute }: { onOpenMinute: (id: number) => void }) {
+  const [tasks, setTasks] = useState<ActionItem[] | null>(null);
+  const [showDone, setShowDone] = useState(false);
+  const today = localToday();
+
+  const load = () => {
+    fetch(`/api/action-items?${new URLSearchParams({ owner: 'me', ...(!showDone && { status: 'open' }) })}`)
+      .then(res => res.ok ? res.json() : [])
+      .then(setTasks)
+      .catch(console.error);
+  };
+
+  useEffect(load, [showDone]);
+
+  const toggle = async (task: ActionItem) => {
+    const res = await fetch(`/api/action-items/${task.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ done: !task.done })
+    });
+    if (res.ok) {
+      load();
+    } else {
+      alert('タスクを更新できませんでした');
+    }
+  };
+
+  if (!tasks) return <div className="py-20 text-center text-zinc-400">読み込み中...</div>;
+
+  return (
+    <div className="space-y-6">
+      <label className="flex items-center gap-2 text-sm text-zinc-500">
+        <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} />
+        完了済みも表示
+      </label>
+      <Card>
+        <div className="divide-y divide-zinc-100">
+          {tasks.map(task => {
+            const overdue = !task.done && !!task.due_date && task.due_date < today;
+            return (
+              <div key={task.id} className="flex items-center gap-4 px-6 py-4">
+                <input type="checkbox" checked={!!task.done} onChange={() => toggle(task)} className="w-4 h-4" />
+                <div className="flex-1 min-w-0">
+                  <p className={cn("font-semibold", task.done && "line-through text-zinc-400")}>{task.description}</p>
+                  <button type="button" onClick={() => onOpenMinute(task.minute_id!)} className="text-xs text-zinc-400 hover:text-zinc-900">
+                    {task.minute_date} • {task.minute_title}{task.project_name && `（${task.project_name}）`}
+                  </button>
+                </div>
+                <span className={cn("text-sm font-medium shrink-0", overdue ? 'text-red-600' : 'text-zinc-500')}>
+                  {task.due_date ? `期限 ${task.due_date}` : '期限なし'}{overdue && '（超過）'}
+                </span>
+              </div>
+            );
+          })}
+          {tasks.length === 0 && <div className="py-20 text-center text-zinc-400">未完了のタスクはありません</div>}
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+type ScheduleType = 'inspections' | 'trip-reports' | 'minutes';
+type ScheduleMode = 'month' | 'week' | 'day';
+
+interface ScheduleEvent {
+  type: ScheduleType;
+  id: number;
+  title: string | null;
+  start: string;
+  end: string;
+  status: string | null;
+  project_name: string | null;
+  location: string | null;
+  user_id: number | null;
+}
+
+const scheduleTypeStyles: Record<ScheduleType, { label: string; className: string }> = {
+  inspections: { label: '点検', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  'trip-reports': { label: '出張', className: 'bg-sky-100 text-sky-800 border-sky-200' },
+  minutes: { label: '会議', className: 'bg-violet-100 text-violet-800 border-violet-200' },
+};
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Calendar arithmetic on YYYY-MM-DD strings, in UTC so no time zone shifts a day
+const shiftDate = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+const formatJaDate = (date: string) => `${Number(date.slice(5, 7))}月${Number(date.slice(8, 10))}日`;
+
+// Days shown for the anchor date: whole weeks (Sunday first) covering the month, the week, or the day itself
+const scheduleDays = (mode: ScheduleMode, anchor: string) => {
+  if (mode === 'day') return [anchor];
+  const first = mode === 'month' ? `${anchor.slice(0, 7)}-01` : anchor;
+  const last = mode === 'month' ? shiftDate(shiftDate(`${anchor.slice(0, 7)}-28`, 4).slice(0, 7) + '-01', -1) : anchor;
+  const start = shiftDate(first, -weekdayOf(first));
+  const end = shiftDate(last, 6 - weekdayOf(last));
+  return Array.from({ length: daysBetween(start, end) + 1 }, (_, i) => shiftDate(start, i));
+};
+
+function ScheduleView({ can, onOpen }: { can: (resource: string, action: Action) => boolean; onOpen: (type: ScheduleType, id: number) => void }) {
+  const today = localToday();
+  const [mode, setMode] = useState<ScheduleMode>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [mineOnly, setMineOnly] = useState(false);
+  const [events, setEvents] = useState<ScheduleEvent[] | null>(null);
+  // The chip being dragged and the day it was picked up from
+  const [dragging, setDragging] = useState<{ event: ScheduleEvent; from: string } | null>(null);
+  const [isFeedOpen, setIsFeedOpen] = useState(false);
+
+  const days = scheduleDays(mode, anchor);
+  const from = days[0];
+  const to = days[days.length - 1];
+
+  const load = () => {
+    fetch(`/api/calendar?${new URLSearchParams({ from, to, ...(mineOnly && { mine: '1' }) })}`)
+      .then(res => res.ok ? res.json() : [])
+      .then(setEvents)
+      .catch(console.error);
+  };
+
+  useEffect(load, [from, to, mineOnly]);
+
+  const step = (direction: number) => {
+    if (mode === 'day') return setAnchor(shiftDate(anchor, direction));
+    if (mode === 'week') return setAnchor(shiftDate(anchor, direction * 7));
+    // The 15th is in the neighbouring month whatever the month lengths
+    setAnchor(shiftDate(`${anchor.slice(0, 7)}-15`, direction * 30).slice(0, 7) + '-01');
+  };
+
+  // Trip reports can be moved only while they are drafts, like every other edit of them
+  const canMove = (event: ScheduleEvent) =>
+    can(event.type, 'update') && (event.type !== 'trip-reports' || event.status === 'draft');
+
+  // Moves the whole event by the days between where it was picked up and where it was dropped
+  const move = async (day: string) => {
+    if (!dragging) return;
+    const { event, from: pickedUp } = dragging;
+    setDragging(null);
+    const offset = daysBetween(pickedUp, day);
+    if (offset === 0) return;
+    const body = event.type === 'trip-reports'
+      ? { date_start: shiftDate(event.start, offset), date_end: shiftDate(event.end, offset) }
+      : { date: shiftDate(event.start, offset) };
+    const res = await fetch(`/api/${event.type}/${event.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: res.statusText }));
+      alert(`予定を変更できませんでした（${error}）`);
+    }
+    load();
+  };
+
+  const eventsOn = (day: string) => (events ?? []).filter(event => event.start <= day && day <= event.end);
+
+  const chip = (event: ScheduleEvent, day: string, detailed = false) => (
+    <button
+      key={`${event.type}-${event.id}`}
+      type="button"
+      draggable={canMove(event)}
+      onDragStart={(e: React.DragEvent<HTMLButtonElement>) => { e.dataTransfer.effectAllowed = 'move'; setDragging({ event, from: day }); }}
+      onDragEnd={() => setDragging(null)}
+      onClick={() => onOpen(event.type, event.id)}
+      title={[scheduleTypeStyles[event.type].label, event.title, event.project_name].filter(Boolean).join(' ')}
+      className={cn(
+        "w-full text-left rounded-lg border px-2 py-1 text-xs font-medium truncate",
+        scheduleTypeStyles[event.type].className,
+        canMove(event) ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+      )}
+    >
+      <span className="font-bold mr-1">{scheduleTypeStyles[event.type].label}</span>
+      {event.title}
+      {detailed && (
+        <span className="block font-normal opacity-80 truncate">
+          {[event.project_name, event.location !== event.title && event.location, event.start !== event.end && `${formatJaDate(event.start)}〜${formatJaDate(event.end)}`].filter(Boolean).join(' / ')}
+        </span>
+      )}
+    </button>
+  );
+
+  const dayHeader = (day: string) => (
+    <span className={cn(
+      "inline-flex items-center justify-center text-xs font-bold",
+      day === today ? 'w-6 h-6 rounded-full bg-zinc-900 text-white' :
+      weekdayOf(day) === 0 ? 'text-red-500' : weekdayOf(day) === 6 ? 'text-sky-600' : 'text-zinc-500'
+    )}>
+      {Number(day.slice(8, 10))}
+    </span>
+  );
+
+  // Every day cell accepts a dragged chip
+  const dropTarget = (day: string) => ({
+    onDragOver: (e: React.DragEvent<HTMLElement>) => { if (dragging) e.preventDefault(); },
+    onDrop: (e: React.DragEvent<HTMLElement>) => { e.preventDefault(); move(day); },
+  });
+
+  const rangeTitle = mode === 'month'
+    ? `${anchor.slice(0, 4)}年${Number(anchor.slice(5, 7))}月`
+    : mode === 'week'
+      ? `${from.slice(0, 4)}年${formatJaDate(from)}〜${formatJaDate(to)}`
+      : `${anchor.slice(0, 4)}年${formatJaDate(anchor)}（${WEEKDAY_LABELS[weekdayOf(anchor)]}）`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="secondary" onClick={() => setAnchor(today)}>今日</Button>
+        <div className="flex items-center">
+          <button onClick={() => step(-1)} className="p-2 hover:bg-zinc-100 rounded-lg"><ArrowLeft size={18} /></button>
+          <button onClick={() => step(1)} className="p-2 hover:bg-zinc-100 rounded-lg"><ChevronRight size={18} /></button>
+        </div>
+        <h3 className="text-lg font-bold">{rangeTitle}</h3>
+        <div className="flex-1" />
+        <label className="flex items-center gap-2 text-sm text-zinc-500">
+          <input type="checkbox" checked={mineOnly} onChange={e => setMineOnly(e.target.checked)} />
+          自分の予定のみ
+        </label>
+        <div className="flex bg-zinc-100 rounded-xl p-1">
+          {(['month', 'week', 'day'] as ScheduleMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={cn("px-3 py-1.5 rounded-lg text-sm font-medium", mode === option ? 'bg-white shadow-sm' : 'text-zinc-500')}
+            >
+              {{ month: '月', week: '週', day: '日' }[option]}
+            </button>
+          ))}
+        </div>
+        <Button variant="secondary" onClick={() => setIsFeedOpen(!isFeedOpen)}>
+          <Calendar size={18} />
+          カレンダー連携
+        </Button>
+      </div>
+
+      {isFeedOpen && <CalendarFeedPanel />}
+
+      <div className="flex items-center gap-4 text-xs text-zinc-500">
+        {(Object.keys(scheduleTypeStyles) as ScheduleType[]).filter(type => can(type, 'read')).map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className={cn("w-3 h-3 rounded border", scheduleTypeStyles[type].className)} />
+            {scheduleTypeStyles[type].label}
+          </span>
+        ))}
+        <span className="text-zinc-400">ドラッグで日程を変更できます</span>
+      </div>
+
+      {!events ? (
+        <div className="py-20 text-center text-zinc-400">読み込み中...</div>
+      ) : mode === 'day' ? (
+        <div {...dropTarget(anchor)}>
+          <Card className="p-6 space-y-2">
+            {eventsOn(anchor).map(event => chip(event, anchor, true))}
+            {eventsOn(anchor).length === 0 && <div className="py-16 text-center text-zinc-400">予定はありません</div>}
+          </Card>
+        </div>
+      ) : (
+        <Card>
+          <div className="grid grid-cols-7 border-b border-zinc-100">
+            {WEEKDAY_LABELS.map((label, i) => (
+              <div key={label} className={cn("py-2 text-center text-xs font-bold", i === 0 ? 'text-red-500' : i === 6 ? 'text-sky-600' : 'text-zinc-400')}>{label}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map(day => {
+              const dayEvents = eventsOn(day);
+              // Month cells show a few chips; the day view has the rest
+              const shown = mode === 'month' ? dayEvents.slice(0, 3) : dayEvents;
+              return (
+                <div
+                  key={day}
+                  {...dropTarget(day)}
+                  className={cn(
+                    "border-b border-r border-zinc-100 p-1.5 space-y-1",
+                    mode === 'month' ? 'min-h-28' : 'min-h-96',
+                    mode === 'month' && day.slice(0, 7) !== anchor.slice(0, 7) && 'bg-zinc-50/60 opacity-60'
+                  )}
+                >
+                  <button type="button" onClick={() => { setAnchor(day); setMode('day'); }} className="block px-1">{dayHeader(day)}</button>
+                  {shown.map(event => chip(event, day, mode === 'week'))}
+                  {dayEvents.length > shown.length && (
+                    <button type="button" onClick={() => { setAnchor(day); setMode('day'); }} className="px-1 text-[10px] font-bold text-zinc-400 hover:text-zinc-900">
+                      他 {dayEvents.length - shown.length}件
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+// Subscription URL for Outlook and Google Calendar. The secret is shown once; issuing a new URL stops the old one.
+function CalendarFeedPanel() {
+  const [active, setActive] = useState<boolean | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/me/calendar-feed')
+      .then(res => res.ok ? res.json() : { active: false })
+      .then(feed => setActive(feed.active))
+      .catch(console.error);
+  }, []);
+
+  const issue = async () => {
+    if (active && !confirm('新しいURLを発行すると、今のURLで登録したカレンダーは更新されなくなります。発行しますか？')) return;
+    const res = await fetch('/api/me/calendar-feed', { method: 'POST' });
+    if (res.ok) {
+      const feed = await res.json();
+      setActive(true);
+      setUrl(feed.url);
+    } else {
+      alert('URLを発行できませんでした');
+    }
+  };
+
+  const revoke = async () => {
+    if (!confirm('カレンダー連携を停止しますか？')) return;
+    const res = await fetch('/api/me/calendar-feed', { method: 'DELETE' });
+    if (res.ok) {
+      setActive(false);
+      setUrl(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h4 className="font-bold">カレンダー連携</h4>
+        <p className="text-sm text-zinc-500">
+          自分の点検・出張・会議の予定を Outlook や Google カレンダーに表示できます。発行したURLをカレンダーアプリの「URLで追加」に登録してください。
+        </p>
+      </div>
+      {url && (
+        <div className="flex gap-2">
+          <input readOnly value={url} onFocus={e => e.target.select()} className="flex-1 px-4 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm font-mono" />
+          <Button variant="secondary" onClick={() => navigator.clipboard.writeText(url).then(() => alert('コピーしました'))}>
+            <Copy size={16} />
+            コピー
+          </Button>
+        </div>
+      )}
+      {url && <p className="text-xs text-zinc-400">このURLを知っている人は予定を閲覧できます。URLはこの画面を閉じると再表示できません。</p>}
+      {!url && active && <p className="text-sm text-zinc-500">連携中です。URLを再表示するには新しいURLを発行してください。</p>}
+      <div className="flex gap-3">
+        <Button onClick={issue} disabled={active === null}>{active ? '新しいURLを発行' : 'URLを発行'}</Button>
+        {active && <Button variant="danger" onClick={revoke}>連携を停止</Button>}
+      </div>
+    </Card>
+  );
+}
+
+const expenseStatusFilters = [
+  { value: 'approved,paid', label: '承認済・支払済' },
+  { value: 'paid', label: '支払済のみ' },
+  { value: 'submitted,approved,paid', label: '申請中を含む' },
+];
+
+// Monthly reimbursement per employee, the journal export for accounting and the reports waiting to be paid
+function ExpensesView({ canPay, onSelectTrip }: { canPay: boolean; onSelectTrip: (id: number) => void }) {
+  const [month, setMonth] = useState(localToday().slice(0, 7));
+  const [status, setStatus] = useState(expenseStatusFilters[0].value);
+  const [summary, setSummary] = useState<ExpenseSummary | null>(null);
+  const [awaitingPayment, setAwaitingPayment] = useState<TripReport[]>([]);
+  const categories = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+  const query = new URLSearchParams({ month, status }).toString();
+
+  const load = () => {
+    fetch(`/api/trip-expenses/summary?${query}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setSummary)
+      .catch(console.error);
+    fetch(`/api/trip-reports?${new URLSearchParams({ status: 'approved', sort: 'date_start', order: 'asc', limit: '200' })}`)
+      .then(res => res.ok ? res.json() : { items: [] })
+      .then(data => setAwaitingPayment(data.items))
+      .catch(console.error);
+  };
+
+  useEffect(load, [query]);
+
+  const markPaid = async (trip: TripReport) => {
+    if (!confirm(`「${trip.destination}」の経費 ${yen(trip.expenses)} を支払済にしますか？`)) return;
+    const res = await fetch(`/api/trip-reports/${trip.id}/transitions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 'paid' })
+    });
+    if (res.ok) {
+      load();
+    } else {
+      const { error } = await res.json();
+      alert(`ステータスを変更できませんでした（${error}）`);
+    }
+  };
+
+  const headerClass = "py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest";
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} className="px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm" />
+        <select value={status} onChange={e => setStatus(e.target.value)} className="px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm">
+          {expenseStatusFilters.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        <div className="flex-1" />
+        <Button variant="secondary" onClick={() => window.open(`/api/trip-expenses/export?${query}`, '_blank')}>
+          <FileDown size={18} />
+          会計用CSV出力
+        </Button>
+      </div>
+
+      <Card className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b border-zinc-200">
+              <th className={headerClass}>社員</th>
+              <th className={cn(headerClass, "text-right")}>件数</th>
+              {categories.map(c => <th key={c} className={cn(headerClass, "text-right")}>{EXPENSE_CATEGORY_LABELS[c]}</th>)}
+              <th className={cn(headerClass, "text-right")}>合計</th>
+              <th className={cn(headerClass, "text-right")}>立替精算額</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {summary?.employees.map(row => (
+              <tr key={row.user_id ?? 'unknown'}>
+                <td className="py-4 px-4 font-semibold">{row.username ?? '—'}</td>
+                <td className="py-4 px-4 text-right text-sm">{row.reports}</td>
+                {categories.map(c => <td key={c} className="py-4 px-4 text-right text-sm">{yen(row[c])}</td>)}
+                <td className="py-4 px-4 text-right font-bold">{yen(row.total)}</td>
+                <td className="py-4 px-4 text-right font-bold">{yen(row.reimbursable)}</td>
+              </tr>
+            ))}
+            {summary && summary.employees.length > 0 && (
+              <tr className="bg-zinc-50">
+                <td className="py-4 px-4 font-bold">合計</td>
+                <td className="py-4 px-4 text-right text-sm">{summary.totals.reports}</td>
+                {categories.map(c => <td key={c} className="py-4 px-4 text-right text-sm font-semibold">{yen(summary.totals[c])}</td>)}
+                <td className="py-4 px-4 text-right font-bold">{yen(summary.totals.total)}</td>
+                <td className="py-4 px-4 text-right font-bold">{yen(summary.totals.reimbursable)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {summary?.employees.length === 0 && <div className="py-20 text-center text-zinc-400">対象月の経費はありません</div>}
+      </Card>
+
+      <Card>
+        <h3 className="text-xl font-bold px-6 pt-6">支払待ち</h3>
+        <div className="divide-y divide-zinc-100">
+          {awaitingPayment.map(trip => (
+            <div key={trip.id} className="flex items-center gap-4 px-6 py-4">
+              <button type="button" onClick={() => onSelectTrip(trip.id)} className="flex-1 min-w-0 text-left">
+                <p className="font-semibold">{trip.destination}</p>
+                <p className="text-xs text-zinc-400">{trip.username ?? '—'} • {trip.date_start} 〜 {trip.date_end} • {trip.purpose}</p>
+              </button>
+              <span className="text-lg font-bold shrink-0">{yen(trip.expenses)}</span>
+              {canPay && (
+                <Button variant="secondary" className="text-xs shrink-0" onClick={() => markPaid(trip)}>
+                  <CheckCircle2 size={14} />
+                  支払済にする
+                </Button>
+              )}
+            </div>
+          ))}
+          {awaitingPayment.length === 0 && <div className="py-12 text-center text-zinc-400">支払待ちの出張報告はありません</div>}
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+const attendeeNames = (minute: Minute) => (minute.attendees ?? '').split(',').map(name => name.trim()).filter(Boolean);
+
+function MinutesList({ data, onSelect }: { data: Minute[]; onSelect: (item: Minute) => void }) {
   return (
     <div className="space-y-6">
       {data.map((item) => (
@@ -727,17 +4234,20 @@ function MinutesList({ data }: { data: Minute[] }) {
               </div>
               <h4 className="text-2xl font-bold">{item.title}</h4>
             </div>
-            <div className="flex -space-x-2">
-              {item.attendees.split(',').slice(0, 3).map((name, i) => (
-                <div key={i} className="w-8 h-8 rounded-full bg-zinc-100 border-2 border-white flex items-center justify-center text-[10px] font-bold text-zinc-600">
-                  {name.trim()[0]}
-                </div>
-              ))}
-              {item.attendees.split(',').length > 3 && (
-                <div className="w-8 h-8 rounded-full bg-zinc-900 border-2 border-white flex items-center justify-center text-[10px] font-bold text-white">
-                  +{item.attendees.split(',').length - 3}
-                </div>
-              )}
+            <div className="flex items-center gap-4">
+              <div className="flex -space-x-2">
+                {attendeeNames(item).slice(0, 3).map((name, i) => (
+                  <div key={i} className="w-8 h-8 rounded-full bg-zinc-100 border-2 border-white flex items-center justify-center text-[10px] font-bold text-zinc-600">
+                    {name[0]}
+                  </div>
+                ))}
+                {attendeeNames(item).length > 3 && (
+                  <div className="w-8 h-8 rounded-full bg-zinc-900 border-2 border-white flex items-center justify-center text-[10px] font-bold text-white">
+                    +{attendeeNames(item).length - 3}
+                  </div>
+                )}
+              </div>
+              <Button variant="ghost" className="text-xs" onClick={() => onSelect(item)}>詳細</Button>
             </div>
           </div>
           
@@ -747,7 +4257,10 @@ function MinutesList({ data }: { data: Minute[] }) {
               <p className="text-sm text-zinc-600 leading-relaxed whitespace-pre-wrap">{item.content}</p>
             </div>
             <div className="space-y-4">
-              <h5 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">アクションアイテム</h5>
+              <div className="flex items-center justify-between">
+                <h5 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">アクションアイテム</h5>
+                {!!item.open_tasks && <span className="px-2 py-0.5 rounded-lg bg-amber-50 text-amber-600 text-[10px] font-bold">未完了 {item.open_tasks}</span>}
+              </div>
               <div className="p-4 bg-zinc-50 rounded-2xl border border-zinc-100">
                 <p className="text-sm text-zinc-600 leading-relaxed whitespace-pre-wrap italic">{item.action_items}</p>
               </div>
@@ -759,3 +4272,213 @@ function MinutesList({ data }: { data: Minute[] }) {
     </div>
   );
 }
+
+function UsersList({ data, currentUserId, onSelect }: { data: ManagedUser[]; currentUserId: number; onSelect: (item: ManagedUser) => void }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="border-b border-zinc-200">
+            <th className="py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest">ユーザー名</th>
+            <th className="py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest">ロール</th>
+            <th className="py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest">状態</th>
+            <th className="py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest text-right">操作</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-100">
+          {data.map((item) => (
+            <tr key={item.id} className="group hover:bg-zinc-50/50 transition-colors">
+              <td className="py-5 px-4">
+                <p className="font-bold">{item.username}{item.id === currentUserId && <span className="ml-2 text-xs text-zinc-400">（自分）</span>}</p>
+                {item.email && <p className="text-xs text-zinc-400">{item.email}</p>}
+                {!!item.must_change_password && <p className="text-xs text-amber-600">初回パスワード変更待ち</p>}
+              </td>
+              <td className="py-5 px-4 text-sm font-semibold">{ROLE_LABELS[item.role] ?? item.role}</td>
+              <td className="py-5 px-4">
+                <span className={cn(
+                  "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider",
+                  item.active ? 'bg-emerald-50 text-emerald-600' : 'bg-zinc-100 text-zinc-500'
+                )}>
+                  {item.active ? '有効' : '無効'}
+                </span>
+              </td>
+              <td className="py-5 px-4 text-right">
+                <Button variant="ghost" className="ml-auto" onClick={() => onSelect(item)}>編集</Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {data.length === 0 && <div className="py-20 text-center text-zinc-400">データがありません</div>}
+    </div>
+  );
+}
+
+const auditActionStyles: Record<AuditAction, string> = {
+  create: 'bg-emerald-50 text-emerald-600',
+  update: 'bg-blue-50 text-blue-600',
+  delete: 'bg-red-50 text-red-600',
+  login: 'bg-zinc-100 text-zinc-500',
+  login_failed: 'bg-amber-50 text-amber-600',
+  logout: 'bg-zinc-100 text-zinc-500',
+};
+
+// Record types the viewer can open in their detail modal
+const auditOpenableViews: View[] = ['projects', 'inspections', 'trip-reports', 'estimates', 'minutes', 'users'];
+
+// Timestamps are stored in UTC; shown in the browser's time zone
+const formatTimestamp = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toLocaleString('ja-JP');
+
+const formatAuditValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Fields whose value differs between the two snapshots; all fields of a created or deleted record
+const auditChanges = (entry: AuditEntry) => {
+  const keys = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  return keys
+    .map(key => ({ key, before: entry.before?.[key], after: entry.after?.[key] }))
+    .filter(({ before, after }) => JSON.stringify(before) !== JSON.stringify(after));
+};
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  username: string;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+}
+
+const auditParams = (filters: AuditFilters) => new URLSearchParams(Object.entries(filters).filter(([, value]) => value !== ''));
+
+function AuditLogView({ onOpen }: { onOpen: (type: View, id: number) => void }) {
+  const [filters, setFilters] = useState<AuditFilters>({ from: '', to: '', username: '', action: '', entity_type: '', entity_id: '' });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const users = useUserOptions();
+  const query = auditParams(filters).toString();
+
+  const load = async (cursor?: string) => {
+    const res = await fetch(`/api/audit-log?${query}${cursor ? `&cursor=${cursor}` : ''}`);
+    if (!res.ok) {
+      const { error } = await res.json();
+      return alert(`監査ログを取得できませんでした（${error}）`);
+    }
+    const page: { items: AuditEntry[]; next_cursor: string | null } = await res.json();
+    setEntries(cursor ? [...entries, ...page.items] : page.items);
+    setNextCursor(page.next_cursor);
+  };
+
+  useEffect(() => { load().catch(console.error); }, [query]);
+
+  const set = (key: keyof AuditFilters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [key]: e.target.value });
+  const controlClass = "px-3 py-2 bg-white border border-zinc-200 rounded-xl text-sm";
+  const headerClass = "py-4 px-4 text-xs font-bold text-zinc-400 uppercase tracking-widest";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="date" value={filters.from} onChange={set('from')} className={controlClass} aria-label="開始日" />
+        <span className="text-zinc-400">〜</span>
+        <input type="date" value={filters.to} onChange={set('to')} className={controlClass} aria-label="終了日" />
+        <input list="audit-usernames" value={filters.username} onChange={set('username')} placeholder="ユーザー名" className={controlClass} />
+        <datalist id="audit-usernames">
+          {users.map(u => <option key={u.id} value={u.username} />)}
+        </datalist>
+        <select value={filters.action} onChange={set('action')} className={controlClass}>
+          <option value="">すべての操作</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+        </select>
+        <select value={filters.entity_type} onChange={set('entity_type')} className={controlClass}>
+          <option value="">すべての対象</option>
+          {Object.entries(AUDIT_ENTITY_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+        </select>
+        <input type="number" min={1} value={filters.entity_id} onChange={set('entity_id')} placeholder="ID" className={cn(controlClass, "w-24")} />
+      </div>
+
+      <Card className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b border-zinc-200">
+              <th className={headerClass}>日時</th>
+              <th className={headerClass}>ユーザー</th>
+              <th className={headerClass}>操作</th>
+              <th className={headerClass}>対象</th>
+              <th className={headerClass}>IPアドレス</th>
+              <th className={headerClass}></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {entries.map(entry => {
+              const changes = auditChanges(entry);
+              const target = entry.entity_type as View | null;
+              const openable = target && entry.entity_id && entry.action !== 'delete' && auditOpenableViews.includes(target);
+              return (
+                <React.Fragment key={entry.id}>
+                  <tr className="align-top">
+                    <td className="py-4 px-4 text-sm whitespace-nowrap">{formatTimestamp(entry.created_at)}</td>
+                    <td className="py-4 px-4 text-sm font-semibold">{entry.username ?? '—'}</td>
+                    <td className="py-4 px-4">
+                      <span className={cn("px-2 py-1 rounded-lg text-xs font-bold", auditActionStyles[entry.action])}>
+                        {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                      </span>
+                    </td>
+                    <td className="py-4 px-4 text-sm">
+                      {entry.entity_type && (
+                        openable
+                          ? <button type="button" onClick={() => onOpen(target, entry.entity_id!)} className="hover:underline">
+                              {AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type} #{entry.entity_id}
+                            </button>
+                          : <span>{AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}{entry.entity_id && ` #${entry.entity_id}`}</span>
+                      )}
+                    </td>
+                    <td className="py-4 px-4 text-xs text-zinc-400 font-mono">{entry.ip ?? '—'}</td>
+                    <td className="py-4 px-4 text-right">
+                      {changes.length > 0 && (
+                        <button type="button" onClick={() => setExpanded(expanded === entry.id ? null : entry.id)} className="text-xs font-semibold text-zinc-500 hover:text-zinc-900">
+                          {expanded === entry.id ? '閉じる' : `変更内容（${changes.length}）`}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === entry.id && (
+                    <tr className="bg-zinc-50">
+                      <td colSpan={6} className="px-4 py-4">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-zinc-400">
+                              <th className="text-left font-semibold py-1 pr-4 w-40">項目</th>
+                              <th className="text-left font-semibold py-1 pr-4">変更前</th>
+                              <th className="text-left font-semibold py-1">変更後</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changes.map(change => (
+                              <tr key={change.key} className="align-top">
+                                <td className="py-1 pr-4 font-mono text-zinc-500">{change.key}</td>
+                                <td className="py-1 pr-4 text-red-600 break-all">{formatAuditValue(change.before)}</td>
+                                <td className="py-1 text-emerald-700 break-all">{formatAuditValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        {entries.length === 0 && <div className="py-20 text-center text-zinc-400">該当する記録はありません</div>}
+      </Card>
+      {nextCursor && (
+        <div className="flex justify-center">
+          <Button variant="secondary" onClick={() => load(nextCursor)}>さらに読み込む</Button>
+        </div>
+      )}
+    </div>
+  );
+}
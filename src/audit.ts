@@ -0,0 +1,27 @@
+// Audit log vocabulary, shared by the server (logging) and the client (audit viewer)
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'login_failed' | 'logout';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: '作成',
+  update: '更新',
+  delete: '削除',
+  login: 'ログイン',
+  login_failed: 'ログイン失敗',
+  logout: 'ログアウト',
+};
+
+// Record types that appear in the log, keyed by their API path
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  projects: 'プロジェクト',
+  clients: '顧客',
+  inspections: '現場点検記録',
+  'corrective-actions': '是正処置',
+  'checklist-templates': 'チェックリストテンプレート',
+  'trip-reports': '出張報告',
+  estimates: '見積もり',
+  minutes: '打ち合わせ議事録',
+  'action-items': 'タスク',
+  attachments: '添付ファイル',
+  users: 'ユーザー',
+};
@@ -0,0 +1,63 @@
+// Inspection checklist rules shared by the server (stored status) and the client (live preview)
+
+export type ChecklistResult = 'ok' | 'ng' | 'na';
+
+export type InspectionStatus = 'pending' | 'completed' | 'urgent';
+
+export const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  pending: '対応待ち',
+  completed: '完了',
+  urgent: '至急',
+};
+
+export const CHECKLIST_RESULT_LABELS: Record<ChecklistResult, string> = {
+  ok: 'OK',
+  ng: '指摘',
+  na: 'N/A',
+};
+
+export interface ChecklistItemInput {
+  section: string;
+  label: string;
+  critical: boolean | number;
+  result: ChecklistResult | null;
+  comment: string | null;
+}
+
+// A failed critical item makes the inspection urgent; any other finding or ungraded item leaves it pending
+export function deriveInspectionStatus(items: Pick<ChecklistItemInput, 'critical' | 'result'>[]): InspectionStatus | null {
+  if (items.length === 0) return null;
+  if (items.some(item => item.result === 'ng' && item.critical)) return 'urgent';
+  if (items.some(item => item.result === 'ng' || !item.result)) return 'pending';
+  return 'completed';
+}
+
+export type CorrectiveActionStatus = 'open' | 'resolved' | 'verified';
+
+export const CORRECTIVE_ACTION_STATUS_LABELS: Record<CorrectiveActionStatus, string> = {
+  open: '未対応',
+  resolved: '是正済・検証待ち',
+  verified: '検証済',
+};
+
+export interface CorrectiveActionState {
+  status: CorrectiveActionStatus;
+  due_date: string | null;
+  checklist_item_id: number | null;
+  critical: boolean | number;
+}
+
+// Unverified corrective actions decide the status: urgent when critical or overdue, otherwise pending.
+// Once every action is verified, the checklist findings they fixed no longer count against the inspection.
+export function rollUpInspectionStatus(
+  checklist: (Pick<ChecklistItemInput, 'critical' | 'result'> & { id?: number })[],
+  actions: CorrectiveActionState[],
+  today: string
+): InspectionStatus | null {
+  const open = actions.filter(action => action.status !== 'verified');
+  if (open.some(action => action.critical || (action.due_date && action.due_date < today))) return 'urgent';
+  if (open.length > 0) return 'pending';
+  const fixed = new Set(actions.map(action => action.checklist_item_id));
+  const remaining = checklist.map(item => item.id !== undefined && fixed.has(item.id) ? { ...item, result: 'ok' as const } : item);
+  return deriveInspectionStatus(remaining) ?? (actions.length > 0 ? 'completed' : null);
+}
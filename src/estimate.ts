@@ -0,0 +1,57 @@
+// Estimate arithmetic shared by the server (stored totals) and the client (live preview in the editor)
+
+export const DEFAULT_TAX_RATE = 0.1;
+
+export const ESTIMATE_UNITS = ['式', 'm²', 'm³', 'm', '人工', '台', '個', '日'];
+
+export const ESTIMATE_CATEGORIES = ['仮設工事', '土工事', '躯体工事', '仕上工事', '設備工事', '諸経費'];
+
+export interface EstimateItemInput {
+  category: string;
+  name: string;
+  spec: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+}
+
+export interface EstimateTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  amount: number;
+}
+
+export const lineSubtotal = (item: Pick<EstimateItemInput, 'quantity' | 'unit_price'>) =>
+  Math.round((Number(item.quantity) || 0) * (Number(item.unit_price) || 0));
+
+// Consumption tax is rounded down, as is customary on Japanese quotations
+export function computeEstimateTotals(items: Pick<EstimateItemInput, 'quantity' | 'unit_price'>[], discount: number, taxRate: number): EstimateTotals {
+  const subtotal = items.reduce((sum, item) => sum + lineSubtotal(item), 0);
+  const safeDiscount = Math.min(Math.max(Math.round(Number(discount) || 0), 0), subtotal);
+  // Work in basis points so that e.g. 0.1 does not round 14410 down to 14409
+  const basisPoints = Math.round((Number(taxRate) || 0) * 10000);
+  const tax = Math.floor((subtotal - safeDiscount) * basisPoints / 10000);
+  return { subtotal, discount: safeDiscount, tax, amount: subtotal - safeDiscount + tax };
+}
+
+export type EstimateStatus = 'draft' | 'submitted' | 'approved' | 'sent' | 'accepted' | 'rejected';
+
+export const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, string> = {
+  draft: '下書き',
+  submitted: '承認申請中',
+  approved: '社内承認済',
+  sent: '送付済',
+  accepted: '受注',
+  rejected: '失注',
+};
+
+// The only status changes an estimate may go through. `action` is the permission the acting role needs on estimates.
+export const ESTIMATE_TRANSITIONS: { from: EstimateStatus; to: EstimateStatus; label: string; action: 'update' | 'approve' }[] = [
+  { from: 'draft', to: 'submitted', label: '承認申請', action: 'update' },
+  { from: 'submitted', to: 'approved', label: '承認', action: 'approve' },
+  { from: 'submitted', to: 'draft', label: '差戻し', action: 'approve' },
+  { from: 'approved', to: 'sent', label: '顧客へ送付', action: 'update' },
+  { from: 'sent', to: 'accepted', label: '受注', action: 'update' },
+  { from: 'sent', to: 'rejected', label: '失注', action: 'update' },
+];
@@ -0,0 +1,14 @@
+// Reminder kinds, shared by the server (scheduler) and the client (bell and dashboard)
+
+export type NotificationKind = 'inspection_due' | 'urgent_finding' | 'estimate_approval' | 'action_item_overdue' | 'quote_follow_up';
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  inspection_due: '明日の点検',
+  urgent_finding: '至急の指摘',
+  estimate_approval: '承認待ち',
+  action_item_overdue: 'タスク期限超過',
+  quote_follow_up: '見積回答待ち',
+};
+
+// Days after sending an estimate without an answer before its author is reminded to follow up
+export const QUOTE_FOLLOW_UP_DAYS = 14;
@@ -0,0 +1,147 @@
+// Changes saved without a connection (public/sw.js covers the reading side). They wait in IndexedDB, per user,
+// until syncChanges uploads them in the order they were made.
+
+export type OfflineResource = 'inspections';
+
+export const OFFLINE_RESOURCES: readonly string[] = ['inspections'];
+
+// conflict: the record changed on the server since it was read; error: the server refused the contents
+export type PendingStatus = 'pending' | 'conflict' | 'error';
+
+export interface PendingChange {
+  id: number;
+  user_id: number;
+  resource: OfflineResource;
+  // Server id of the edited record; null for a record created offline
+  record_id: number | null;
+  // Version of the record the edit started from
+  version: number | null;
+  // Idempotency key of a create, so an upload whose answer got lost is not stored twice
+  key: string;
+  body: Record<string, unknown>;
+  queued_at: string;
+  status: PendingStatus;
+  error?: string;
+  // Server copy at the time of the conflict; null when the record was deleted
+  server?: Record<string, unknown> | null;
+}
+
+export type NewChange = Pick<PendingChange, 'user_id' | 'resource' | 'record_id' | 'version' | 'body'>;
+
+const DB_NAME = 'offline-queue';
+const STORE = 'changes';
+const CHANGED_EVENT = 'offline-queue-changed';
+
+const openQueue = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Resolves once the transaction is committed
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openQueue();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => { db.close(); resolve(request.result); };
+    transaction.onerror = () => { db.close(); reject(transaction.error); };
+  });
+};
+
+const notify = () => window.dispatchEvent(new Event(CHANGED_EVENT));
+
+// crypto.randomUUID only exists on https and localhost
+const newKey = () => globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const listChanges = async (userId: number) =>
+  (await run<PendingChange[]>('readonly', store => store.getAll())).filter(change => change.user_id === userId);
+
+export const saveChange = async (change: PendingChange) => {
+  await run('readwrite', store => store.put(change));
+  notify();
+};
+
+// New contents for a queued change; refused contents get another try, a conflict stays until it is resolved
+export const editChange = (change: PendingChange, body: Record<string, unknown>) => saveChange({
+  ...change,
+  body,
+  queued_at: new Date().toISOString(),
+  status: change.status === 'error' ? 'pending' : change.status,
+  error: undefined,
+});
+
+// Another edit of a record still in the queue replaces the queued contents but keeps the version it started from
+export const queueChange = async (change: NewChange) => {
+  const queued = change.record_id === null
+    ? undefined
+    : (await listChanges(change.user_id)).find(c => c.resource === change.resource && c.record_id === change.record_id);
+  if (queued) return editChange(queued, change.body);
+  await run('readwrite', store => store.add({ ...change, key: newKey(), queued_at: new Date().toISOString(), status: 'pending' }));
+  notify();
+};
+
+export const removeChange = async (id: number) => {
+  await run('readwrite', store => store.delete(id));
+  notify();
+};
+
+export const onQueueChange = (listener: () => void) => {
+  window.addEventListener(CHANGED_EVENT, listener);
+  return () => window.removeEventListener(CHANGED_EVENT, listener);
+};
+
+// Uploads the queued changes in order and returns how many went through. It stops when the network or the session
+// does not let a change through, so later edits never overtake earlier ones; conflicts and refused changes stay
+// in the queue for the user to resolve.
+const upload = async (userId: number) => {
+  let synced = 0;
+  for (const change of await listChanges(userId)) {
+    if (change.status !== 'pending') continue;
+    const creating = change.record_id === null;
+    let res: Response;
+    try {
+      res = await fetch(creating ? `/api/${change.resource}` : `/api/${change.resource}/${change.record_id}`, {
+        method: creating ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(creating ? { 'Idempotency-Key': change.key } : change.version !== null ? { 'If-Match': String(change.version) } : {}),
+        },
+        body: JSON.stringify(change.body),
+      });
+    } catch {
+      break;
+    }
+    if (res.ok) {
+      await removeChange(change.id);
+      synced++;
+      continue;
+    }
+    const answer = await res.json().catch(() => ({ error: res.statusText }));
+    if (res.status === 409 && answer.current) {
+      await saveChange({ ...change, status: 'conflict', server: answer.current });
+    } else if (res.status === 404) {
+      await saveChange({ ...change, status: 'conflict', server: null });
+    } else if (res.status === 400) {
+      const error = answer.fields ? Object.values(answer.fields as Record<string, string>).join(' / ') : answer.error;
+      await saveChange({ ...change, status: 'error', error });
+    } else {
+      // Signed out, no permission or a server error: try again later
+      break;
+    }
+  }
+  return synced;
+};
+
+let syncing: Promise<number> | null = null;
+
+// Concurrent calls (reconnecting while a sync runs) share one upload
+export const syncChanges = (userId: number) => syncing ??= upload(userId).finally(() => { syncing = null; });
+
+// Cached API answers (public/sw.js) belong to the signed-in user
+export const clearCachedData = async () => {
+  if (!('caches' in window)) return;
+  const keys = await caches.keys();
+  await Promise.all(keys.filter(key => key.startsWith('data-')).map(key => caches.delete(key)));
+};
@@ -0,0 +1,383 @@
+// Request body schemas shared by the server (validation) and the client (form and record types).
+// Forms post strings, so blank values become null and numeric strings are converted before checking.
+// Messages are shown next to the form fields and are therefore in Japanese.
+import { z } from 'zod';
+import { DEFAULT_TAX_RATE, ESTIMATE_STATUS_LABELS, type EstimateStatus } from './estimate.ts';
+import { INSPECTION_STATUS_LABELS, CHECKLIST_RESULT_LABELS, type InspectionStatus, type ChecklistResult } from './checklist.ts';
+import {
+  EXPENSE_CATEGORY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  TRIP_REPORT_STATUS_LABELS,
+  type ExpenseCategory,
+  type PaymentMethod,
+  type TripReportStatus
+} from './tripExpense.ts';
+
+// Fallback messages for checks without their own, e.g. a list sent where text is expected
+z.config(z.locales.ja());
+
+export type Role = 'admin' | 'manager' | 'inspector' | 'sales' | 'viewer' | 'accounting';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: '管理者',
+  manager: 'マネージャー',
+  inspector: '現場検査員',
+  sales: '営業',
+  viewer: '閲覧者',
+  accounting: '経理',
+};
+
+export type ProjectStatus = 'planning' | 'active' | 'completed' | 'on_hold';
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  planning: '計画中',
+  active: '進行中',
+  completed: '完了',
+  on_hold: '中断',
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const blankToNull = (value: unknown) => typeof value === 'string' && value.trim() === '' ? null : value;
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? Number(value.replace(/[,，]/g, '')) : blankToNull(value);
+
+const optionalText = z.preprocess(blankToNull, z.string().trim().nullable()).optional();
+
+const requiredText = (label: string) =>
+  z.preprocess(blankToNull, z.string({ error: `${label}を入力してください` }).trim());
+
+const date = (label: string) =>
+  z.string({ error: `${label}を入力してください` }).regex(/^\d{4}-\d{2}-\d{2}$/, `${label}は日付（YYYY-MM-DD）で入力してください`);
+
+const requiredDate = (label: string) => z.preprocess(blankToNull, date(label));
+
+const optionalDate = (label: string) => z.preprocess(blankToNull, date(label).nullable()).optional();
+
+// Record ids from selects; "" means none
+const optionalId = z.preprocess(toNumber, z.number({ error: '選択が正しくありません' }).int().positive().nullable()).optional();
+
+const number = (label: string) => z.preprocess(toNumber, z.number({ error: `${label}は数値で入力してください` }));
+
+const amount = (label: string) =>
+  z.preprocess(toNumber, z.number({ error: `${label}は数値で入力してください` }).min(0, `${label}は0以上で入力してください`));
+
+const flag = z.preprocess(value => value === '1' || value === 1 ? true : value === '0' || value === 0 ? false : value, z.boolean());
+
+const oneOf = <T extends string>(labels: Record<T, string>, label: string) =>
+  z.enum(Object.keys(labels) as [T, ...T[]], { error: `${label}は${Object.values(labels).join('、')}のいずれかを選択してください` });
+
+const optionalOneOf = <T extends string>(labels: Record<T, string>, label: string) =>
+  z.preprocess(blankToNull, oneOf(labels, label).nullable()).optional();
+
+// The end of a period may not come before its start
+const dateOrder = <T extends Record<string, unknown>>(start: keyof T & string, end: keyof T & string, message: string) =>
+  (value: T, ctx: z.RefinementCtx) => {
+    const from = value[start], to = value[end];
+    if (typeof from === 'string' && typeof to === 'string' && to < from) ctx.addIssue({ code: 'custom', path: [end], message });
+  };
+
+// Auth and users
+
+export const loginSchema = z.object({
+  username: requiredText('ユーザー名'),
+  password: z.string({ error: 'パスワードを入力してください' }),
+});
+
+const password = z.string({ error: 'パスワードを入力してください' })
+  .min(MIN_PASSWORD_LENGTH, `パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください`);
+
+export const passwordChangeSchema = z.object({
+  current_password: z.string({ error: '現在のパスワードを入力してください' }),
+  new_password: password,
+});
+
+// Where notifications are emailed; without one they are only shown in the app
+const userEmail = z.preprocess(blankToNull, z.email('メールアドレスの形式が正しくありません').nullable()).optional();
+
+export const userCreateSchema = z.object({
+  username: requiredText('ユーザー名'),
+  password,
+  role: oneOf(ROLE_LABELS, 'ロール'),
+  email: userEmail,
+});
+
+// Omitted fields are left unchanged; a blank password means no reset
+export const userUpdateSchema = z.object({
+  role: oneOf(ROLE_LABELS, 'ロール').optional(),
+  active: flag.optional(),
+  password: z.preprocess(blankToNull, password.nullable()).optional(),
+  email: userEmail,
+});
+
+export const notificationUpdateSchema = z.object({
+  read: flag,
+});
+
+// Projects
+
+const projectFields = z.object({
+  code: optionalText,
+  name: requiredText('プロジェクト名'),
+  client: optionalText,
+  site_address: optionalText,
+  start_date: optionalDate('着工日'),
+  end_date: optionalDate('竣工予定日'),
+  status: optionalOneOf(PROJECT_STATUS_LABELS, 'ステータス'),
+});
+
+export const projectSchema = projectFields.superRefine(dateOrder('start_date', 'end_date', '竣工予定日は着工日以降の日付にしてください'));
+
+// Clients
+
+export const clientContactSchema = z.object({
+  id: optionalId,
+  name: optionalText,
+  department: optionalText,
+  title: optionalText,
+  phone: optionalText,
+  email: z.preprocess(blankToNull, z.email('メールアドレスの形式が正しくありません').nullable()).optional(),
+});
+
+const clientFields = z.object({
+  name: requiredText('正式名称'),
+  name_kana: optionalText,
+  postal_code: z.preprocess(blankToNull, z.string().trim().regex(/^\d{3}-?\d{4}$/, '郵便番号は123-4567の形式で入力してください').nullable()).optional(),
+  address: optionalText,
+  phone: optionalText,
+  billing_name: optionalText,
+  billing_address: optionalText,
+  invoice_number: z.preprocess(blankToNull, z.string().trim().regex(/^T\d{13}$/, '登録番号はTに続く13桁の数字で入力してください').nullable()).optional(),
+  payment_terms: optionalText,
+  notes: optionalText,
+  contacts: z.array(clientContactSchema).optional(),
+});
+
+export const clientSchema = clientFields;
+
+// Inspections, checklists and corrective actions
+
+export const checklistItemSchema = z.object({
+  id: optionalId,
+  section: optionalText,
+  label: optionalText,
+  critical: flag.optional(),
+  result: optionalOneOf<ChecklistResult>(CHECKLIST_RESULT_LABELS, '判定'),
+  comment: optionalText,
+});
+
+const inspectionFields = z.object({
+  project_id: optionalId,
+  project_name: optionalText,
+  date: requiredDate('点検日'),
+  location: requiredText('場所'),
+  findings: optionalText,
+  status: optionalOneOf<InspectionStatus>(INSPECTION_STATUS_LABELS, 'ステータス'),
+  template_id: optionalId,
+  checklist: z.array(checklistItemSchema).optional(),
+});
+
+export const inspectionSchema = inspectionFields;
+
+export const checklistTemplateSchema = z.object({
+  name: requiredText('テンプレート名'),
+  description: optionalText,
+  items: z.array(z.object({ section: optionalText, label: optionalText, critical: flag.optional() })).optional(),
+});
+
+const correctiveActionFields = z.object({
+  checklist_item_id: optionalId,
+  description: requiredText('是正内容'),
+  assignee_id: optionalId,
+  due_date: optionalDate('期限'),
+});
+
+export const correctiveActionSchema = correctiveActionFields;
+
+export const correctiveActionUpdateSchema = correctiveActionFields.partial();
+
+export const correctiveActionResolveSchema = z.object({
+  remediation_note: requiredText('是正内容の報告'),
+});
+
+export const correctiveActionVerifySchema = z.object({
+  approved: flag.default(false),
+  comment: optionalText,
+}).superRefine((value, ctx) => {
+  if (!value.approved && !value.comment) ctx.addIssue({ code: 'custom', path: ['comment'], message: '差戻しの理由を入力してください' });
+});
+
+// Trip reports
+
+export const tripExpenseItemSchema = z.object({
+  id: optionalId,
+  category: oneOf<ExpenseCategory>(EXPENSE_CATEGORY_LABELS, '費目').default('other'),
+  date: optionalDate('日付'),
+  description: optionalText,
+  amount: amount('金額').default(0),
+  payment_method: optionalOneOf<PaymentMethod>(PAYMENT_METHOD_LABELS, '支払方法'),
+  receipt_attachment_id: optionalId,
+});
+
+const tripReportFields = z.object({
+  project_id: optionalId,
+  destination: requiredText('目的地'),
+  date_start: requiredDate('開始日'),
+  date_end: requiredDate('終了日'),
+  purpose: requiredText('目的'),
+  results: optionalText,
+  // Checked by the update route, which only allows the current status
+  status: optionalOneOf<TripReportStatus>(TRIP_REPORT_STATUS_LABELS, 'ステータス'),
+  items: z.array(tripExpenseItemSchema).optional(),
+});
+
+export const tripReportSchema = tripReportFields.superRefine(dateOrder('date_start', 'date_end', '終了日は開始日以降の日付にしてください'));
+
+// Estimates
+
+export const estimateItemSchema = z.object({
+  id: optionalId,
+  category: optionalText,
+  name: optionalText,
+  spec: optionalText,
+  quantity: amount('数量').default(0),
+  unit: optionalText,
+  // Negative unit prices are used for discount lines
+  unit_price: number('単価').default(0),
+});
+
+const discount = amount('値引き');
+const taxRate = z.preprocess(toNumber, z.number({ error: '消費税率は数値で入力してください' }).min(0).max(1, '消費税率は0〜1で入力してください'));
+
+// discount and tax_rate are never null; PATCH leaves them out or sets a number, PUT and create fall back to the defaults
+const estimateFields = z.object({
+  project_id: optionalId,
+  client_id: optionalId,
+  // Taken from the client master when client_id is set
+  client_name: optionalText,
+  project_name: optionalText,
+  details: optionalText,
+  discount: discount.optional(),
+  tax_rate: taxRate.optional(),
+  valid_until: optionalDate('有効期限'),
+  status: optionalOneOf<EstimateStatus>(ESTIMATE_STATUS_LABELS, 'ステータス'),
+  items: z.array(estimateItemSchema).optional(),
+});
+
+export const estimateSchema = estimateFields.extend({
+  discount: discount.default(0),
+  tax_rate: taxRate.default(DEFAULT_TAX_RATE),
+}).superRefine((value, ctx) => {
+  if (!value.client_id && !value.client_name) ctx.addIssue({ code: 'custom', path: ['client_name'], message: '顧客を選択するか顧客名を入力してください' });
+});
+
+// Minutes
+
+export const minuteAttendeeSchema = z.object({
+  user_id: optionalId,
+  name: optionalText,
+  organization: optionalText,
+});
+
+export const actionItemSchema = z.object({
+  id: optionalId,
+  description: optionalText,
+  owner_id: optionalId,
+  due_date: optionalDate('期限'),
+  done: flag.optional(),
+});
+
+const minuteFields = z.object({
+  project_id: optionalId,
+  title: requiredText('会議タイトル'),
+  date: requiredDate('開催日'),
+  content: requiredText('会議内容'),
+  participants: z.array(minuteAttendeeSchema).optional(),
+  tasks: z.array(actionItemSchema).optional(),
+  // Legacy free text (comma-separated attendees, one action item per line)
+  attendees: z.union([z.string(), z.array(minuteAttendeeSchema)]).optional(),
+  action_items: z.union([z.string(), z.array(actionItemSchema)]).optional(),
+});
+
+export const minuteSchema = minuteFields;
+
+// Action items can be ticked off or edited one at a time from My Tasks
+export const actionItemUpdateSchema = z.object({
+  done: flag.optional(),
+  owner_id: optionalId,
+  due_date: optionalDate('期限'),
+  description: requiredText('タスク内容').optional(),
+});
+
+// Status workflows and attachments
+
+export const transitionSchema = z.object({
+  status: requiredText('ステータス'),
+  comment: optionalText,
+});
+
+export const attachmentMetaSchema = z.object({
+  caption: optionalText,
+  point: optionalText,
+});
+
+// AI drafting (see server/aiDrafts.ts)
+
+export const AI_INPUT_MAX_LENGTH = 20000;
+
+const draftInput = (label: string) => z.preprocess(blankToNull, z.string({ error: `${label}を入力してください` }).trim()
+  .max(AI_INPUT_MAX_LENGTH, `${label}は${AI_INPUT_MAX_LENGTH.toLocaleString()}文字以内で入力してください`));
+
+export const minutesDraftSchema = z.object({
+  notes: draftInput('メモ'),
+  date: optionalDate('開催日'),
+});
+
+export const inspectionSummarySchema = z.object({
+  findings: z.preprocess(blankToNull, z.string().trim().max(AI_INPUT_MAX_LENGTH, `所見は${AI_INPUT_MAX_LENGTH.toLocaleString()}文字以内で入力してください`).nullable()).optional(),
+  location: optionalText,
+  project_name: optionalText,
+  checklist: z.array(checklistItemSchema).optional(),
+}).superRefine((value, ctx) => {
+  if (!value.findings && !value.checklist?.some(row => row.result === 'ng')) {
+    ctx.addIssue({ code: 'custom', path: ['findings'], message: '所見を入力するか、チェックリストで指摘を記録してください' });
+  }
+});
+
+export const estimateItemsDraftSchema = z.object({
+  description: draftInput('工事概要'),
+  project_name: optionalText,
+});
+
+// PUT replaces every editable field (same rules as creating); PATCH checks only the fields that are sent
+export const recordSchemas = {
+  projects: { put: projectSchema, patch: projectFields.partial() },
+  clients: { put: clientSchema, patch: clientFields.partial() },
+  inspections: { put: inspectionSchema, patch: inspectionFields.partial() },
+  'trip-reports': { put: tripReportSchema, patch: tripReportFields.partial() },
+  estimates: { put: estimateSchema, patch: estimateFields.partial() },
+  minutes: { put: minuteSchema, patch: minuteFields.partial() },
+};
+
+export type ProjectInput = z.infer<typeof projectSchema>;
+export type ClientInput = z.infer<typeof clientSchema>;
+export type ClientContactInput = z.infer<typeof clientContactSchema>;
+export type InspectionInput = z.infer<typeof inspectionSchema>;
+export type TripReportInput = z.infer<typeof tripReportSchema>;
+export type EstimateInput = z.infer<typeof estimateSchema>;
+export type MinuteInput = z.infer<typeof minuteSchema>;
+
+// Body of a 400 response: `fields` maps a field path (e.g. "items.2.amount") to its message
+export interface ValidationErrorBody {
+  error: string;
+  fields: Record<string, string>;
+}
+
+// First message per field path
+export const fieldErrors = (error: z.ZodError): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const key = issue.path.map(String).join('.') || '_';
+    fields[key] ??= issue.message;
+  }
+  return fields;
+};
@@ -0,0 +1,57 @@
+// Trip expense categories and the reimbursement workflow, shared by the server and the client
+
+export type ExpenseCategory = 'transport' | 'lodging' | 'per_diem' | 'other';
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  transport: '交通費',
+  lodging: '宿泊費',
+  per_diem: '日当',
+  other: 'その他',
+};
+
+export type PaymentMethod = 'cash' | 'personal_card' | 'ic_card' | 'company_card';
+
+// Everything except the company card was paid by the employee and is reimbursed
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: '現金（立替）',
+  personal_card: '個人カード（立替）',
+  ic_card: '交通系IC（立替）',
+  company_card: '法人カード',
+};
+
+export interface TripExpenseItemInput {
+  category: ExpenseCategory;
+  date: string | null;
+  description: string | null;
+  amount: number;
+  payment_method: PaymentMethod | null;
+  receipt_attachment_id: number | null;
+}
+
+export const tripExpenseTotal = (items: Pick<TripExpenseItemInput, 'amount'>[]) =>
+  items.reduce((sum, item) => sum + Math.round(Number(item.amount) || 0), 0);
+
+export type TripReportStatus = 'draft' | 'submitted' | 'approved' | 'paid';
+
+export const TRIP_REPORT_STATUS_LABELS: Record<TripReportStatus, string> = {
+  draft: '下書き',
+  submitted: '精算申請中',
+  approved: '承認済・支払待ち',
+  paid: '支払済',
+};
+
+// The only status changes a trip report may go through, with the permission the acting role needs.
+// Managers approve; accounting (expense-payments) pays out or sends a report back.
+export const TRIP_REPORT_TRANSITIONS: {
+  from: TripReportStatus;
+  to: TripReportStatus;
+  label: string;
+  resource: 'trip-reports' | 'expense-payments';
+  action: 'update' | 'approve';
+}[] = [
+  { from: 'draft', to: 'submitted', label: '精算申請', resource: 'trip-reports', action: 'update' },
+  { from: 'submitted', to: 'approved', label: '承認', resource: 'trip-reports', action: 'approve' },
+  { from: 'submitted', to: 'draft', label: '差戻し', resource: 'trip-reports', action: 'approve' },
+  { from: 'approved', to: 'paid', label: '支払済にする', resource: 'expense-payments', action: 'update' },
+  { from: 'approved', to: 'draft', label: '差戻し', resource: 'expense-payments', action: 'update' },
+];